@@ -0,0 +1,34 @@
+// 缓存 OCR 资源（worker、识别核心、语言模型），首次加载后可离线识别
+const CACHE_NAME = 'ocr-assets-v1'
+const OCR_PATH = '/tesseract/'
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('ocr-assets-') && key !== CACHE_NAME).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET' || !new URL(request.url).pathname.includes(OCR_PATH)) return
+
+  event.respondWith(
+    caches.open(CACHE_NAME).then(async cache => {
+      const cached = await cache.match(request)
+      if (cached) return cached
+      const response = await fetch(request)
+      if (response.ok) {
+        cache.put(request, response.clone())
+      }
+      return response
+    })
+  )
+})
@@ -1,11 +1,13 @@
 import { useState, useEffect, useMemo, useRef, type ChangeEvent } from 'react'
-import { format } from 'date-fns'
+import { format, addMonths, subMonths, isSameMonth, parse } from 'date-fns'
 import { zhCN } from 'date-fns/locale'
 import { 
   Clock, 
   Calendar, 
   Plus, 
   Trash2, 
+  Pencil,
+  History,
   TrendingUp,
   Target,
   CheckCircle2,
@@ -14,25 +16,121 @@ import {
   Sparkles,
   FileImage,
   X,
-  BarChart3
+  BarChart3,
+  ChevronLeft,
+  ChevronRight,
+  Settings
 } from 'lucide-react'
 import {
   TimeRecord,
+  RecordSource,
+  PunchStatus,
+  PUNCH_STATUS_LABELS,
   getWorkdaysInMonth,
   getRemainingWeekends,
   getRequiredOvertimeMinutes,
-  calculateWorkedMinutes,
-  calculateOvertimeMinutes,
+  normalizeSegments,
+  getRecordSegments,
+  formatSegments,
+  RecordFields,
   formatMinutesToHours,
+  formatCreditedMinutes,
+  OVERTIME_CATEGORY_LABELS,
+  getRecordOvertimeCategory,
+  getWeightedOvertimeMinutes,
+  estimateOvertimePay,
   formatDate,
   isDateWeekend,
+  getHolidayName,
   getTodayString,
   generateId,
-  saveRecords,
-  loadRecords,
+  createRecord,
+  editRecord,
+  isRecordEdited,
+  recalculateRecord,
+  saveEditorName,
+  loadEditorName,
   filterCurrentMonthRecords
 } from './utils/timeUtils'
-import { parseDingTalkText, ParsedDingTalkRecord, parseDingTalkStatsText, ParsedDingTalkStats } from './utils/ocrUtils'
+import { WorkSettings, loadSettings, saveSettings } from './utils/settingsUtils'
+import {
+  HolidayCalendar,
+  hasHolidayCalendar,
+  importHolidayCalendars,
+  removeHolidayCalendar,
+  setActiveRegion,
+  loadProfileRegion
+} from './utils/holidayUtils'
+import {
+  Profile,
+  loadProfiles,
+  saveProfiles,
+  loadActiveProfileId,
+  saveActiveProfileId,
+  clearProfileStorage
+} from './utils/profileUtils'
+import ProfileSwitcher from './components/ProfileSwitcher'
+import WorkTimer from './components/WorkTimer'
+import { OpenSession, createOpenSession, saveOpenSession, loadOpenSession } from './utils/sessionUtils'
+import LeavePanel from './components/LeavePanel'
+import ReportPanel from './components/ReportPanel'
+import CompliancePanel from './components/CompliancePanel'
+import { checkCompliance } from './utils/complianceUtils'
+import {
+  LeaveRecord,
+  LeaveType,
+  LeaveQuotas,
+  LEAVE_TYPE_LABELS,
+  LEAVE_DURATION_LABELS,
+  filterMonthLeaves,
+  getMonthExemptLeaveDays,
+  loadLeaves,
+  saveLeaves,
+  loadLeaveQuotas,
+  saveLeaveQuotas
+} from './utils/leaveUtils'
+import ProfileComparison from './components/ProfileComparison'
+import SettingsPanel from './components/SettingsPanel'
+import HolidayCalendarPanel from './components/HolidayCalendarPanel'
+import SegmentInputs from './components/SegmentInputs'
+import PunchPairingEditor from './components/PunchPairingEditor'
+import RecordTransferPanel from './components/RecordTransferPanel'
+import { downloadBlob } from './utils/exportUtils'
+import { ConflictStrategy, findConflicts, findConflictingRecordIds, applyWithConflicts } from './utils/conflictUtils'
+import ConflictDialog from './components/ConflictDialog'
+import MonthCalendar from './components/MonthCalendar'
+import OcrLanguageBadge from './components/OcrLanguageBadge'
+import ImagePreprocessPanel from './components/ImagePreprocessPanel'
+import OcrBoxOverlay from './components/OcrBoxOverlay'
+import MonthlyAttendanceImport from './components/MonthlyAttendanceImport'
+import ReconciliationPanel from './components/ReconciliationPanel'
+import { DingTalkDay, reconcileMonth } from './utils/reconcileUtils'
+import {
+  PreprocessOptions,
+  DEFAULT_PREPROCESS_OPTIONS,
+  hasPreprocessing,
+  preprocessImage
+} from './utils/imagePreprocessUtils'
+import ForecastPanel from './components/ForecastPanel'
+import { RestDayPlan, forecastOvertime, loadRestDayPlan, saveRestDayPlan } from './utils/forecastUtils'
+import {
+  QuarantinedRecord,
+  loadRecordsFromStorage,
+  saveRecordsToStorage,
+  deleteStoredRecords,
+  loadQuarantine,
+  clearQuarantine
+} from './utils/storageUtils'
+import {
+  OcrWord,
+  OcrErrorKind,
+  OCR_STAGE_LABELS,
+  recognizeImage,
+  getOcrErrorKind,
+  warmUpOcrWorkers,
+  terminateOcrWorkers
+} from './utils/ocrService'
+import { OcrField, findFieldWords, isPairingComplete, applyFieldCorrection, parseDingTalkText, ParsedDingTalkRecord, parseDingTalkStatsText, ParsedDingTalkStats } from './utils/ocrUtils'
 
 type OcrStatus = 'idle' | 'loading' | 'success' | 'error'
 
@@ -45,70 +143,193 @@ interface OcrItem {
   progress: number | null
   parsed: ParsedDingTalkRecord | null
   text: string
+  language: string | null // 实际使用的语言模型
+  preprocess: PreprocessOptions
+  processedUrl: string | null // 预处理效果预览
+  preprocessFailed: boolean // 预处理出错，识别时改用原图
+  recognizedUrl: string | null // 实际识别的图片，单词位置相对于它
+  words: OcrWord[]
+  fieldOverrides: Partial<Record<OcrField, number>> // 手动指定的字段来源单词
+}
+
+const OCR_ERROR_MESSAGES: Record<OcrErrorKind, string> = {
+  timeout: '识别超时，请换更清晰的截图或稍后重试。',
+  cancelled: '已取消识别',
+  failed: '识别失败，请更换清晰截图或手动录入。'
+}
+
+function createEmptyForm(): RecordFields {
+  return {
+    date: getTodayString(),
+    segments: [{ startTime: '09:00', endTime: '18:00' }]
+  }
+}
+
+// 日期和每个时段的上下班时间都已填写
+function isFormComplete(fields: RecordFields): boolean {
+  return Boolean(fields.date) &&
+    fields.segments.length > 0 &&
+    fields.segments.every(segment => segment.startTime && segment.endTime)
 }
 
 function App() {
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles)
+  const [activeProfileId, setActiveProfileId] = useState(loadActiveProfileId)
+  const [showComparison, setShowComparison] = useState(false)
   const [records, setRecords] = useState<TimeRecord[]>([])
-  const [currentDate] = useState(new Date())
-  const [formData, setFormData] = useState({
-    date: getTodayString(),
-    startTime: '09:00',
-    endTime: '18:00'
-  })
+  const [currentDate, setCurrentDate] = useState(new Date())
+  const [formData, setFormData] = useState<RecordFields>(createEmptyForm)
   const [ocrItems, setOcrItems] = useState<OcrItem[]>([])
   const ocrItemsRef = useRef<OcrItem[]>([])
+  const ocrControllersRef = useRef(new Map<string, AbortController>())
+  const processedUrlsRef = useRef(new Set<string>())
+  const statsControllerRef = useRef<AbortController | null>(null)
+  const formSectionRef = useRef<HTMLElement>(null)
   const [statsResult, setStatsResult] = useState<ParsedDingTalkStats | null>(null)
   const [statsOcrStatus, setStatsOcrStatus] = useState<OcrStatus>('idle')
   const [statsOcrMessage, setStatsOcrMessage] = useState('')
+  // 月度考勤识别到的逐日打卡，用于对账
+  const [dingTalkDays, setDingTalkDays] = useState<DingTalkDay[]>([])
+  const [statsOcrLanguage, setStatsOcrLanguage] = useState<string | null>(null)
   const [statsPreviewUrl, setStatsPreviewUrl] = useState<string | null>(null)
   const [manualAvgHours, setManualAvgHours] = useState('')
   const [manualAttendanceDays, setManualAttendanceDays] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editForm, setEditForm] = useState<RecordFields>({ date: '', segments: [] })
+  const [editorName, setEditorName] = useState(loadEditorName)
+  const [settings, setSettings] = useState<WorkSettings>(loadSettings)
+  const [showSettings, setShowSettings] = useState(false)
+  // 节假日日历变化时递增，触发依赖节假日的计算刷新
+  const [holidayVersion, setHolidayVersion] = useState(0)
+  // 加载完成前不写入存储，避免空数组覆盖已有数据
+  const [recordsLoaded, setRecordsLoaded] = useState(false)
+  const [storageError, setStorageError] = useState('')
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>(loadQuarantine)
+  const [restDayPlan, setRestDayPlan] = useState<RestDayPlan>(loadRestDayPlan)
+  const [leaves, setLeaves] = useState<LeaveRecord[]>(loadLeaves)
+  const [leaveQuotas, setLeaveQuotas] = useState<LeaveQuotas>(loadLeaveQuotas)
+  // fromSession：冲突记录来自上下班计时，处理完冲突后才结束计时
+  const [pendingConflict, setPendingConflict] = useState<{
+    incoming: TimeRecord
+    conflicts: TimeRecord[]
+    fromSession?: boolean
+  } | null>(null)
+  const [openSession, setOpenSession] = useState<OpenSession | null>(loadOpenSession)
 
-  // 加载本地数据
+  // 加载当前档案的数据（切换档案时重新加载）
   useEffect(() => {
-    setRecords(loadRecords())
-  }, [])
+    let cancelled = false
+    loadRecordsFromStorage(activeProfileId).then(result => {
+      if (cancelled) return
+      setRecords(result.records)
+      setQuarantine(loadQuarantine(activeProfileId))
+      setRecordsLoaded(true)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [activeProfileId])
 
   // 保存数据
   useEffect(() => {
-    saveRecords(records)
-  }, [records])
+    if (!recordsLoaded) return
+    saveRecordsToStorage(records, activeProfileId)
+      .then(() => setStorageError(''))
+      .catch(() => setStorageError('记录保存失败，浏览器存储空间可能已满，请导出数据备份。'))
+  }, [records, recordsLoaded, activeProfileId])
+
+  useEffect(() => {
+    saveRestDayPlan(restDayPlan, activeProfileId)
+  }, [restDayPlan, activeProfileId])
+
+  useEffect(() => {
+    saveLeaves(leaves, activeProfileId)
+  }, [leaves, activeProfileId])
+
+  useEffect(() => {
+    saveLeaveQuotas(leaveQuotas, activeProfileId)
+  }, [leaveQuotas, activeProfileId])
+
+  useEffect(() => {
+    saveOpenSession(openSession, activeProfileId)
+  }, [openSession, activeProfileId])
 
   useEffect(() => {
     ocrItemsRef.current = ocrItems
+    // 释放已不再显示的预处理预览
+    const inUse = new Set(ocrItems.flatMap(item => [item.processedUrl, item.recognizedUrl]))
+    processedUrlsRef.current.forEach(url => {
+      if (inUse.has(url)) return
+      URL.revokeObjectURL(url)
+      processedUrlsRef.current.delete(url)
+    })
   }, [ocrItems])
 
-  // 释放预览 URL
+  // 释放预览 URL，取消未完成的识别
   useEffect(() => {
+    const controllers = ocrControllersRef.current
+    const processedUrls = processedUrlsRef.current
     return () => {
       ocrItemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl))
+      processedUrls.forEach(url => URL.revokeObjectURL(url))
+      controllers.forEach(controller => controller.abort())
+      statsControllerRef.current?.abort()
+      terminateOcrWorkers()
     }
   }, [])
 
   // 计算统计数据
   const stats = useMemo(() => {
-    const workdays = getWorkdaysInMonth(currentDate)
-    const requiredOvertime = getRequiredOvertimeMinutes(workdays)
+    // 请假按工时规则抵扣应出勤天数和应加班时长
+    const calendarWorkdays = getWorkdaysInMonth(currentDate)
+    const leaveDays = getMonthExemptLeaveDays(leaves, currentDate, settings)
+    const workdays = calendarWorkdays - leaveDays
+    const requiredOvertime = getRequiredOvertimeMinutes(calendarWorkdays, settings, leaveDays)
     const remainingWeekends = getRemainingWeekends(currentDate)
     
     const monthRecords = filterCurrentMonthRecords(records, currentDate)
     const totalOvertime = monthRecords.reduce((sum, r) => sum + r.overtimeMinutes, 0)
     const totalWorked = monthRecords.reduce((sum, r) => sum + r.workedMinutes, 0)
+    // 按加班类别倍数折算
+    const weightedOvertime = monthRecords.reduce((sum, r) => sum + getWeightedOvertimeMinutes(r, settings), 0)
+    const overtimePay = estimateOvertimePay(weightedOvertime, settings)
     
     const progress = requiredOvertime > 0 ? Math.min(100, (totalOvertime / requiredOvertime) * 100) : 0
     const remainingOvertime = Math.max(0, requiredOvertime - totalOvertime)
     
     return {
+      calendarWorkdays,
       workdays,
+      leaveDays,
       requiredOvertime,
       remainingWeekends,
       totalOvertime,
       totalWorked,
+      weightedOvertime,
+      overtimePay,
       progress,
       remainingOvertime,
       recordCount: monthRecords.length
     }
-  }, [records, currentDate])
+  }, [records, leaves, currentDate, settings, holidayVersion])
+
+  // 月底前的加班节奏
+  const forecast = useMemo(
+    () => forecastOvertime(currentDate, records, settings, restDayPlan, leaves),
+    [records, currentDate, settings, restDayPlan, leaves, holidayVersion]
+  )
+
+  // 钉钉考勤与本地记录对账
+  const reconciliation = useMemo(
+    () => reconcileMonth(currentDate, records, statsResult, dingTalkDays, settings),
+    [currentDate, records, statsResult, dingTalkDays, settings]
+  )
+
+  // 当月迟到、早退、缺勤、缺下班卡
+  const compliance = useMemo(
+    () => checkCompliance(currentDate, records, leaves, settings),
+    [currentDate, records, leaves, settings, holidayVersion]
+  )
 
   // 当月记录
   const currentMonthRecords = useMemo(() => {
@@ -117,35 +338,116 @@ function App() {
     )
   }, [records, currentDate])
 
-  // 添加记录
-  const addRecord = (date: string, startTime: string, endTime: string) => {
-    const type = isDateWeekend(date) ? 'holiday' : 'workday'
-    const workedMinutes = calculateWorkedMinutes(startTime, endTime)
-    const overtimeMinutes = calculateOvertimeMinutes(workedMinutes, type)
+  // 当月请假
+  const currentMonthLeaves = useMemo(() => filterMonthLeaves(leaves, currentDate).reverse(), [leaves, currentDate])
+
+  // 打卡记录与请假按日期倒序合并显示
+  const listItems = useMemo(() => [
+    ...currentMonthRecords.map(record => ({ date: record.date, record, leave: null })),
+    ...currentMonthLeaves.map(leave => ({ date: leave.date, record: null, leave }))
+  ].sort((a, b) => b.date.localeCompare(a.date)), [currentMonthRecords, currentMonthLeaves])
+
+  // 同一天多条或时间重叠的记录
+  const conflictingIds = useMemo(() => findConflictingRecordIds(records), [records])
+
+  const isViewingThisMonth = isSameMonth(currentDate, new Date())
+  const monthLabel = format(currentDate, 'yyyy年M月', { locale: zhCN })
+
+  // 切换月份
+  const handlePrevMonth = () => setCurrentDate(prev => subMonths(prev, 1))
+  const handleNextMonth = () => setCurrentDate(prev => addMonths(prev, 1))
+  const handleMonthPick = (value: string) => {
+    if (!value) return
+    setCurrentDate(parse(value, 'yyyy-MM', new Date()))
+  }
+
+  // 按工时规则预览表单的计入工时与加班
+  const formPreview = createRecord(formData, 'manual', settings)
+  const editPreview = createRecord(editForm, 'manual', settings)
+
+  const handleRestDayPlanChange = (date: string, minutes: number) => {
+    setRestDayPlan(prev => {
+      const { [date]: _removed, ...rest } = prev
+      return minutes > 0 ? { ...rest, [date]: minutes } : rest
+    })
+  }
+
+  // 保存工时规则，并按新规则重新计算已有记录
+  const handleSaveSettings = (next: WorkSettings) => {
+    saveSettings(next, activeProfileId)
+    setSettings(next)
+    setRecords(prev => prev.map(record => recalculateRecord(record, next)))
+    setShowSettings(false)
+  }
+
+  // 节假日日历变化后，重新判断记录的工作日/休息日类型
+  const refreshHolidayCalendars = () => {
+    setHolidayVersion(prev => prev + 1)
+    setRecords(prev => prev.map(record => recalculateRecord(record, settings)))
+  }
+
+  const handleImportHolidays = (calendars: HolidayCalendar[]) => {
+    importHolidayCalendars(calendars)
+    refreshHolidayCalendars()
+  }
+
+  const handleRemoveHolidays = (region: string, year: number) => {
+    removeHolidayCalendar(region, year)
+    refreshHolidayCalendars()
+  }
 
+  const handleRegionChange = (region: string) => {
+    setActiveRegion(region, activeProfileId)
+    refreshHolidayCalendars()
+  }
+
+  // 添加记录（与已有记录冲突时先让用户选择处理方式），返回是否已直接添加
+  const addRecord = (
+    fields: RecordFields,
+    source: RecordSource = 'manual',
+    punchStatus: PunchStatus[] = [],
+    fromSession = false
+  ): boolean => {
     const newRecord: TimeRecord = {
-      id: generateId(),
-      date,
-      startTime,
-      endTime,
-      type,
-      workedMinutes,
-      overtimeMinutes
+      ...createRecord(fields, source, settings),
+      ...(punchStatus.length > 0 ? { punchStatus } : {})
+    }
+    const conflicts = findConflicts(newRecord, records)
+    if (conflicts.length > 0) {
+      setPendingConflict({ incoming: newRecord, conflicts, fromSession })
+      return false
     }
-
     setRecords(prev => [...prev, newRecord])
+    return true
+  }
+
+  // 上下班计时：下班时把会话转为一条记录
+  const handleStartSession = () => {
+    setOpenSession(createOpenSession())
+  }
+
+  // 有冲突时保留计时，直到用户处理冲突；取消添加、刷新页面或切换档案后仍可再次下班
+  const handleStopSession = (fields: RecordFields) => {
+    if (addRecord(fields, 'manual', [], true)) {
+      setOpenSession(null)
+    }
+  }
+
+  const handleResolveConflict = (strategy: ConflictStrategy) => {
+    if (!pendingConflict) return
+    setRecords(prev => applyWithConflicts(prev, [pendingConflict.incoming], strategy, settings, editorName.trim() || '未署名').records)
+    if (pendingConflict.fromSession && strategy !== 'skip') {
+      setOpenSession(null)
+    }
+    setPendingConflict(null)
   }
 
   const handleAddRecord = () => {
-    const { date, startTime, endTime } = formData
-    addRecord(date, startTime, endTime)
+    if (!isFormComplete(formData)) return
+    addRecord(formData)
     
     // 重置表单
-    setFormData({
-      date: getTodayString(),
-      startTime: '09:00',
-      endTime: '18:00'
-    })
+    setFormData(createEmptyForm())
   }
 
   // 删除记录
@@ -153,6 +455,124 @@ function App() {
     setRecords(prev => prev.filter(r => r.id !== id))
   }
 
+  // 隔离区：导出后可清除
+  const handleExportQuarantine = () => {
+    downloadBlob(
+      new Blob([JSON.stringify(quarantine, null, 2)], { type: 'application/json' }),
+      `隔离记录_${getTodayString()}.json`
+    )
+  }
+
+  const handleClearQuarantine = () => {
+    clearQuarantine(activeProfileId)
+    setQuarantine([])
+  }
+
+  // 切换档案：先停止写入当前记录，其余按档案重新读取
+  const handleSwitchProfile = (profileId: string) => {
+    if (profileId === activeProfileId) return
+    saveActiveProfileId(profileId)
+    setRecordsLoaded(false)
+    setRecords([])
+    setActiveProfileId(profileId)
+    setSettings(loadSettings(profileId))
+    setRestDayPlan(loadRestDayPlan(profileId))
+    setLeaves(loadLeaves(profileId))
+    setLeaveQuotas(loadLeaveQuotas(profileId))
+    setOpenSession(loadOpenSession(profileId))
+    setActiveRegion(loadProfileRegion(profileId), profileId)
+    setHolidayVersion(prev => prev + 1)
+    setStatsResult(null)
+    setDingTalkDays([])
+    setEditingId(null)
+    setPendingConflict(null)
+  }
+
+  const handleAddProfile = (name: string) => {
+    const profile: Profile = { id: generateId(), name, createdAt: new Date().toISOString() }
+    const next = [...profiles, profile]
+    saveProfiles(next)
+    setProfiles(next)
+    handleSwitchProfile(profile.id)
+  }
+
+  const handleRenameProfile = (profileId: string, name: string) => {
+    const next = profiles.map(profile => (profile.id === profileId ? { ...profile, name } : profile))
+    saveProfiles(next)
+    setProfiles(next)
+  }
+
+  // 删除档案及其全部数据，然后回到默认档案
+  const handleDeleteProfile = (profileId: string) => {
+    const fallback = profiles.find(profile => profile.id !== profileId)
+    if (!fallback) return
+    const next = profiles.filter(profile => profile.id !== profileId)
+    handleSwitchProfile(fallback.id)
+    saveProfiles(next)
+    setProfiles(next)
+    clearProfileStorage(profileId)
+    deleteStoredRecords(profileId).catch(() => setStorageError('档案记录删除失败，请稍后重试。'))
+  }
+
+  // 请假
+  const handleAddLeave = (fields: Pick<LeaveRecord, 'date' | 'type' | 'duration' | 'note'>) => {
+    setLeaves(prev => [...prev, { ...fields, id: generateId(), createdAt: new Date().toISOString() }])
+  }
+
+  const handleDeleteLeave = (id: string) => {
+    setLeaves(prev => prev.filter(leave => leave.id !== id))
+  }
+
+  const handleLeaveQuotaChange = (type: LeaveType, days: number | null) => {
+    setLeaveQuotas(prev => {
+      const { [type]: _removed, ...rest } = prev
+      return days === null || Number.isNaN(days) ? rest : { ...rest, [type]: days }
+    })
+  }
+
+  // 批量导入记录，冲突按统一方式处理
+  const handleImportRecords = (incoming: TimeRecord[], strategy: ConflictStrategy) => {
+    const summary = applyWithConflicts(records, incoming, strategy, settings, editorName.trim() || '未署名')
+    setRecords(summary.records)
+    return summary
+  }
+
+  // 编辑记录
+  const handleStartEdit = (record: TimeRecord) => {
+    setEditingId(record.id)
+    setEditForm({
+      date: record.date,
+      segments: getRecordSegments(record)
+    })
+  }
+
+  // 点击月历：有记录则编辑，没有则以该日期填充录入表单
+  const handleSelectCalendarDay = (date: string, record: TimeRecord | undefined) => {
+    if (record) {
+      handleStartEdit(record)
+      requestAnimationFrame(() => {
+        document.getElementById(`record-${record.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      })
+      return
+    }
+    setFormData(prev => ({ ...prev, date }))
+    formSectionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+  }
+
+  const handleSaveEdit = () => {
+    if (!editingId || !isFormComplete(editForm)) return
+    const editor = editorName.trim() || '未署名'
+    saveEditorName(editorName.trim())
+    setRecords(prev =>
+      prev.map(record => (record.id === editingId ? editRecord(record, editForm, editor, settings) : record))
+    )
+    setEditingId(null)
+  }
+
   const handleOcrFilesChange = (event: ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files ?? [])
     if (files.length === 0) return
@@ -164,9 +584,18 @@ function App() {
       message: '等待识别',
       progress: null,
       parsed: null,
-      text: ''
+      text: '',
+      language: null,
+      preprocess: DEFAULT_PREPROCESS_OPTIONS,
+      processedUrl: null,
+      preprocessFailed: false,
+      recognizedUrl: null,
+      words: [],
+      fieldOverrides: {}
     }))
     setOcrItems(prev => [...prev, ...newItems])
+    newItems.forEach(item => refreshProcessedPreview(item.id, item.file, item.preprocess))
+    warmUpOcrWorkers(files.length)
     event.target.value = ''
   }
 
@@ -176,7 +605,30 @@ function App() {
     )
   }
 
+  // 生成预处理效果预览；处理期间选项又被修改时丢弃这次结果
+  const refreshProcessedPreview = async (id: string, file: File, options: PreprocessOptions) => {
+    let processedUrl: string | null = null
+    let preprocessFailed = false
+    if (hasPreprocessing(options)) {
+      try {
+        processedUrl = URL.createObjectURL(await preprocessImage(file, options))
+        processedUrlsRef.current.add(processedUrl)
+      } catch {
+        preprocessFailed = true
+      }
+    }
+    setOcrItems(prev =>
+      prev.map(item => (item.id === id && item.preprocess === options ? { ...item, processedUrl, preprocessFailed } : item))
+    )
+  }
+
+  const handlePreprocessChange = (item: OcrItem, options: PreprocessOptions) => {
+    updateOcrItem(item.id, { preprocess: options, preprocessFailed: false })
+    refreshProcessedPreview(item.id, item.file, options)
+  }
+
   const removeOcrItem = (id: string) => {
+    ocrControllersRef.current.get(id)?.abort()
     setOcrItems(prev => {
       const target = prev.find(item => item.id === id)
       if (target) URL.revokeObjectURL(target.previewUrl)
@@ -184,101 +636,114 @@ function App() {
     })
   }
 
-  const withTimeout = async <T,>(promise: Promise<T>, timeoutMs: number) => {
-    return new Promise<T>((resolve, reject) => {
-      const timer = setTimeout(() => reject(new Error('timeout')), timeoutMs)
-      promise
-        .then(result => {
-          clearTimeout(timer)
-          resolve(result)
-        })
-        .catch(error => {
-          clearTimeout(timer)
-          reject(error)
-        })
-    })
-  }
-
   const recognizeOcrItem = async (item: OcrItem) => {
+    ocrControllersRef.current.get(item.id)?.abort()
+    const controller = new AbortController()
+    ocrControllersRef.current.set(item.id, controller)
     updateOcrItem(item.id, {
       status: 'loading',
-      message: '正在加载 OCR 引擎...',
+      message: OCR_STAGE_LABELS.queued,
       progress: null,
       parsed: null,
-      text: ''
+      text: '',
+      language: null,
+      recognizedUrl: null,
+      words: [],
+      fieldOverrides: {}
     })
 
-    let worker: any = null
-
     try {
-      const { createWorker } = await import('tesseract.js')
-      worker = await withTimeout(
-        createWorker({
-          logger: message => {
-            if (typeof message.progress === 'number') {
-              updateOcrItem(item.id, { progress: Math.round(message.progress * 100) })
-            }
-            if (message.status) {
-              updateOcrItem(item.id, { message: `OCR：${message.status}` })
-            }
-          }
-        }),
-        15000
-      )
-
-      try {
-        updateOcrItem(item.id, { message: '加载中文识别模型...' })
-        await withTimeout(worker.loadLanguage('eng+chi_sim'), 20000)
-        await withTimeout(worker.initialize('eng+chi_sim'), 15000)
-      } catch (error) {
-        updateOcrItem(item.id, { message: '切换英文识别模型...' })
-        await withTimeout(worker.loadLanguage('eng'), 20000)
-        await withTimeout(worker.initialize('eng'), 15000)
+      let image: Blob = item.file
+      if (hasPreprocessing(item.preprocess)) {
+        updateOcrItem(item.id, { message: '预处理图片...' })
+        // 预处理失败时直接识别原图
+        image = await preprocessImage(item.file, item.preprocess).catch(() => item.file)
       }
-
-      updateOcrItem(item.id, { message: '识别中...' })
-      const { data } = await withTimeout(worker.recognize(item.file), 45000)
-
-      const text = data?.text ?? ''
+      const { text, language, words } = await recognizeImage(image, {
+        signal: controller.signal,
+        onProgress: ({ stage, progress }) => updateOcrItem(item.id, { message: OCR_STAGE_LABELS[stage], progress })
+      })
       const parsed = parseDingTalkText(text, new Date())
+      let recognizedUrl = item.previewUrl
+      if (image !== item.file) {
+        recognizedUrl = URL.createObjectURL(image)
+        processedUrlsRef.current.add(recognizedUrl)
+      }
 
       updateOcrItem(item.id, {
         status: 'success',
         message: parsed.isValid ? '识别完成，可直接保存。' : '识别完成，请确认结果。',
+        progress: null,
         parsed,
-        text
+        text,
+        language,
+        recognizedUrl,
+        words
       })
     } catch (error) {
-      const errorMessage = error instanceof Error && error.message === 'timeout'
-        ? '识别超时，请换更清晰的截图或稍后重试。'
-        : '识别失败，请更换清晰截图或手动录入。'
-      updateOcrItem(item.id, { status: 'error', message: errorMessage })
+      const kind = getOcrErrorKind(error)
+      updateOcrItem(item.id, {
+        status: kind === 'cancelled' ? 'idle' : 'error',
+        message: OCR_ERROR_MESSAGES[kind],
+        progress: null
+      })
     } finally {
-      if (worker) {
-        await worker.terminate()
+      if (ocrControllersRef.current.get(item.id) === controller) {
+        ocrControllersRef.current.delete(item.id)
       }
     }
   }
 
-  const handleOcrRecognizeAll = async () => {
-    for (const item of ocrItems) {
-      if (item.status === 'loading') continue
-      await recognizeOcrItem(item)
+  // 识别结果中各字段对应的单词，手动指定的优先
+  const getFieldHighlights = (item: OcrItem): Partial<Record<number, OcrField>> => {
+    if (!item.parsed) return {}
+    const highlights: Partial<Record<number, OcrField>> = {}
+    const detected = findFieldWords(item.words, item.parsed)
+    for (const field of Object.keys(detected) as OcrField[]) {
+      const override = item.fieldOverrides[field]
+      const indexes = override !== undefined ? [override] : detected[field]
+      indexes.forEach(index => {
+        highlights[index] = field
+      })
     }
+    return highlights
+  }
+
+  const handleCorrectOcrField = (item: OcrItem, field: OcrField, text: string, wordIndex: number) => {
+    if (!item.parsed) return false
+    const parsed = applyFieldCorrection(item.parsed, field, text, new Date())
+    if (!parsed) return false
+    updateOcrItem(item.id, {
+      parsed,
+      fieldOverrides: { ...item.fieldOverrides, [field]: wordIndex }
+    })
+    return true
+  }
+
+  const handleCancelOcrItem = (id: string) => {
+    ocrControllersRef.current.get(id)?.abort()
+  }
+
+  const handleCancelAllOcr = () => {
+    ocrControllersRef.current.forEach(controller => controller.abort())
+  }
+
+  // 同时识别的数量由 OCR 服务控制
+  const handleOcrRecognizeAll = async () => {
+    await Promise.all(ocrItems.filter(item => item.status !== 'loading').map(recognizeOcrItem))
   }
 
   const handleApplyParsed = (parsed: ParsedDingTalkRecord | null) => {
     if (!parsed) return
     setFormData({
       date: parsed.date,
-      startTime: parsed.startTime || formData.startTime,
-      endTime: parsed.endTime || formData.endTime
+      segments: parsed.segments.length > 0 ? parsed.segments : formData.segments
     })
   }
 
   const handleSaveParsed = (parsed: ParsedDingTalkRecord | null) => {
     if (!parsed || !parsed.isValid) return
-    addRecord(parsed.date, parsed.startTime, parsed.endTime)
+    addRecord({ date: parsed.date, segments: parsed.segments }, 'ocr', parsed.statuses)
   }
 
   // 统计页面 OCR 识别
@@ -293,6 +758,7 @@ function App() {
     
     setStatsPreviewUrl(URL.createObjectURL(file))
     setStatsResult(null)
+    setStatsOcrLanguage(null)
     setStatsOcrStatus('idle')
     setStatsOcrMessage('已选择图片，点击“识别统计”开始')
     event.target.value = ''
@@ -300,46 +766,36 @@ function App() {
 
   const handleStatsRecognize = async () => {
     if (!statsPreviewUrl) return
-    
+
+    statsControllerRef.current?.abort()
+    const controller = new AbortController()
+    statsControllerRef.current = controller
     setStatsOcrStatus('loading')
-    setStatsOcrMessage('正在加载 OCR 引擎...')
-    
-    let worker: any = null
-    
+    setStatsOcrMessage(OCR_STAGE_LABELS.queued)
+    setStatsOcrLanguage(null)
+
     try {
-      const { createWorker } = await import('tesseract.js')
-      
-      // 创建 worker
-      worker = await createWorker()
-      
-      setStatsOcrMessage('加载识别模型...')
-      try {
-        await worker.loadLanguage('chi_sim+eng')
-        await worker.initialize('chi_sim+eng')
-      } catch {
-        await worker.loadLanguage('eng')
-        await worker.initialize('eng')
-      }
-      
-      setStatsOcrMessage('识别中...')
-      const response = await fetch(statsPreviewUrl)
-      const blob = await response.blob()
-      const { data } = await worker.recognize(blob)
-      
-      const text = data?.text ?? ''
+      const { text, language } = await recognizeImage(statsPreviewUrl, {
+        signal: controller.signal,
+        onProgress: ({ stage, progress }) =>
+          setStatsOcrMessage(`${OCR_STAGE_LABELS[stage]}${progress !== null ? ` ${progress}%` : ''}`)
+      })
       console.log('OCR 识别结果:', text)
-      const parsed = parseDingTalkStatsText(text, stats.workdays)
-      
+      // 钉钉的出勤天数已不含请假，这里用日历工作日，避免请假被扣两次
+      const parsed = parseDingTalkStatsText(text, stats.calendarWorkdays)
+      setStatsOcrLanguage(language)
+
       setStatsResult(parsed)
       setStatsOcrStatus(parsed.isValid ? 'success' : 'error')
       setStatsOcrMessage(parsed.isValid ? '识别完成' : '识别失败，请手动输入')
     } catch (error) {
-      console.error('OCR 错误:', error)
-      setStatsOcrStatus('error')
-      setStatsOcrMessage('识别失败，请手动输入数据')
+      const kind = getOcrErrorKind(error)
+      if (kind === 'failed') console.error('OCR 错误:', error)
+      setStatsOcrStatus(kind === 'cancelled' ? 'idle' : 'error')
+      setStatsOcrMessage(kind === 'failed' ? '识别失败，请手动输入数据' : OCR_ERROR_MESSAGES[kind])
     } finally {
-      if (worker) {
-        await worker.terminate()
+      if (statsControllerRef.current === controller) {
+        statsControllerRef.current = null
       }
     }
   }
@@ -347,8 +803,8 @@ function App() {
   // 手动输入统计数据
   const handleManualStatsInput = (avgHours: number, attendanceDays: number) => {
     const totalHours = avgHours * attendanceDays
-    const weekendWorkDays = Math.max(0, attendanceDays - stats.workdays)
-    const correctAvgHours = stats.workdays > 0 ? totalHours / stats.workdays : 0
+    const weekendWorkDays = Math.max(0, attendanceDays - stats.calendarWorkdays)
+    const correctAvgHours = stats.calendarWorkdays > 0 ? totalHours / stats.calendarWorkdays : 0
     
     setStatsResult({
       year: currentDate.getFullYear(),
@@ -357,7 +813,7 @@ function App() {
       attendanceDays,
       restDays: 0,
       totalHours,
-      workdays: stats.workdays,
+      workdays: stats.calendarWorkdays,
       correctAvgHours,
       weekendWorkDays,
       isValid: true,
@@ -370,26 +826,159 @@ function App() {
       {/* 头部 */}
       <header className="bg-gradient-primary text-primary-foreground py-8 px-4">
         <div className="max-w-4xl mx-auto">
-          <div className="flex items-center gap-3 mb-2">
-            <Clock className="w-8 h-8" />
-            <h1 className="text-2xl font-bold">工时记录器</h1>
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <div className="flex items-center gap-3">
+              <Clock className="w-8 h-8" />
+              <h1 className="text-2xl font-bold">工时记录器</h1>
+            </div>
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              aria-label="工时规则设置"
+            >
+              <Settings className="w-5 h-5" />
+            </button>
           </div>
           <p className="opacity-90">
-            {format(currentDate, 'yyyy年M月', { locale: zhCN })} · 轻松管理你的加班时长
+            {monthLabel} · 轻松管理你的加班时长
           </p>
+
+          {/* 档案切换 */}
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              onSwitch={handleSwitchProfile}
+              onAdd={handleAddProfile}
+              onRename={handleRenameProfile}
+              onDelete={handleDeleteProfile}
+            />
+            {profiles.length > 1 && (
+              <button
+                onClick={() => setShowComparison(prev => !prev)}
+                className="px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm transition-colors flex items-center gap-1"
+              >
+                <BarChart3 className="w-4 h-4" />
+                {showComparison ? '收起对比' : '档案对比'}
+              </button>
+            )}
+          </div>
+
+          {/* 上下班计时 */}
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            <WorkTimer
+              session={openSession}
+              settings={settings}
+              onStart={handleStartSession}
+              onStop={handleStopSession}
+              onDiscard={() => setOpenSession(null)}
+            />
+          </div>
+
+          {/* 月份切换 */}
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <button
+              onClick={handlePrevMonth}
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              aria-label="上个月"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <input
+              type="month"
+              value={format(currentDate, 'yyyy-MM')}
+              onChange={e => handleMonthPick(e.target.value)}
+              className="px-3 py-2 rounded-lg bg-white/10 text-primary-foreground border border-white/20 focus:outline-none"
+              aria-label="选择月份"
+            />
+            <button
+              onClick={handleNextMonth}
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              aria-label="下个月"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            {!isViewingThisMonth && (
+              <button
+                onClick={() => setCurrentDate(new Date())}
+                className="px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm transition-colors"
+              >
+                回到本月
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
       <main className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        {showSettings && (
+          <SettingsPanel
+            settings={settings}
+            onSave={handleSaveSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+
+        {showSettings && (
+          <HolidayCalendarPanel
+            key={activeProfileId}
+            onImport={handleImportHolidays}
+            onRemove={handleRemoveHolidays}
+            onRegionChange={handleRegionChange}
+          />
+        )}
+
+        {showComparison && profiles.length > 1 && (
+          <ProfileComparison
+            profiles={profiles}
+            activeProfileId={activeProfileId}
+            currentDate={currentDate}
+            records={records}
+            settings={settings}
+            leaves={leaves}
+            holidayVersion={holidayVersion}
+            onSwitch={handleSwitchProfile}
+          />
+        )}
+
+        {storageError && (
+          <div className="card p-4 flex items-center gap-2 text-sm text-danger">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {storageError}
+          </div>
+        )}
+
+        {quarantine.length > 0 && (
+          <div className="card p-4 flex flex-col md:flex-row md:items-center justify-between gap-3 text-sm">
+            <span className="flex items-center gap-2 text-warning">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              有 {quarantine.length} 条记录数据损坏，已从列表中隔离（{quarantine[0].reason}）
+            </span>
+            <div className="flex gap-2">
+              <button onClick={handleExportQuarantine} className="btn-secondary">导出隔离数据</button>
+              <button onClick={handleClearQuarantine} className="btn-secondary">清除</button>
+            </div>
+          </div>
+        )}
+
+        {!hasHolidayCalendar(currentDate.getFullYear()) && (
+          <div className="card p-4 flex items-center gap-2 text-sm text-warning">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            暂无 {currentDate.getFullYear()} 年的节假日日历，工作日仅按周末计算。请在设置中导入日历文件。
+          </div>
+        )}
+
         {/* 统计卡片 */}
         <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="stat-card">
             <div className="flex items-center gap-2 text-muted-foreground mb-2">
               <Calendar className="w-4 h-4" />
-              <span className="text-sm">本月工作日</span>
+              <span className="text-sm">{format(currentDate, 'M月')}工作日</span>
             </div>
             <p className="text-3xl font-bold text-foreground">{stats.workdays}</p>
-            <p className="text-sm text-muted-foreground mt-1">天</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              天{stats.leaveDays > 0 ? ` · 已扣除请假 ${stats.leaveDays} 天` : ''}
+            </p>
           </div>
 
           <div className="stat-card">
@@ -400,7 +989,7 @@ function App() {
             <p className="text-3xl font-bold text-foreground">
               {Math.floor(stats.requiredOvertime / 60)}
             </p>
-            <p className="text-sm text-muted-foreground mt-1">小时</p>
+            <p className="text-sm text-muted-foreground mt-1">小时{stats.leaveDays > 0 ? ' · 已按请假折算' : ''}</p>
           </div>
 
           <div className="stat-card">
@@ -411,7 +1000,10 @@ function App() {
             <p className="text-3xl font-bold text-primary">
               {Math.floor(stats.totalOvertime / 60)}
             </p>
-            <p className="text-sm text-muted-foreground mt-1">小时</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              小时 · 折算 {formatMinutesToHours(stats.weightedOvertime)}
+              {stats.overtimePay !== null && ` · 约 ¥${stats.overtimePay.toFixed(2)}`}
+            </p>
           </div>
 
           <div className="stat-card">
@@ -424,6 +1016,13 @@ function App() {
           </div>
         </section>
 
+        {/* 月历 */}
+        <MonthCalendar
+          currentDate={currentDate}
+          records={currentMonthRecords}
+          onSelectDay={handleSelectCalendarDay}
+        />
+
         {/* 进度条 */}
         <section className="card p-6 animate-fade-in">
           <div className="flex items-center justify-between mb-4">
@@ -461,6 +1060,9 @@ function App() {
           </div>
         </section>
 
+        {/* 加班节奏预测 */}
+        <ForecastPanel forecast={forecast} plan={restDayPlan} onPlanChange={handleRestDayPlanChange} />
+
         {/* OCR 上传 */}
         <section className="card p-6 animate-slide-up">
           <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
@@ -492,6 +1094,11 @@ function App() {
               <Sparkles className="w-4 h-4" />
               识别全部
             </button>
+            {ocrItems.some(item => item.status === 'loading') && (
+              <button onClick={handleCancelAllOcr} className="btn-secondary">
+                全部取消
+              </button>
+            )}
             <p className="text-sm text-muted-foreground">支持多图批量识别</p>
           </div>
 
@@ -518,22 +1125,39 @@ function App() {
                     </button>
                   </div>
 
-                  <img
-                    src={item.previewUrl}
-                    alt="钉钉打卡截图预览"
-                    className="w-full rounded-lg object-cover aspect-video"
+                  <ImagePreprocessPanel
+                    previewUrl={item.previewUrl}
+                    processedUrl={item.processedUrl}
+                    failed={item.preprocessFailed}
+                    options={item.preprocess}
+                    onChange={options => handlePreprocessChange(item, options)}
                   />
 
                   <div className="text-xs text-muted-foreground">
                     {item.message}
                     {item.progress !== null ? ` ${item.progress}%` : ''}
                   </div>
+                  {item.language && <OcrLanguageBadge language={item.language} />}
 
                   {item.parsed && (
                     <div className="text-sm">
                       <p className="text-foreground font-medium">
-                        {item.parsed.date} {item.parsed.startTime} - {item.parsed.endTime || '待确认'}
+                        {item.parsed.date} {item.parsed.segments.length > 0 ? formatSegments(item.parsed.segments) : '时间待确认'}
                       </p>
+                      <PunchPairingEditor
+                        punches={item.parsed.punches}
+                        segments={item.parsed.segments}
+                        onChange={segments => updateOcrItem(item.id, {
+                          parsed: { ...item.parsed!, segments, isValid: isPairingComplete(item.parsed!.punches, segments) }
+                        })}
+                      />
+                      {item.parsed.statuses.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {item.parsed.statuses.map(status => (
+                            <span key={status} className="badge-warning">{PUNCH_STATUS_LABELS[status]}</span>
+                          ))}
+                        </div>
+                      )}
                       {item.parsed.warnings.length > 0 && (
                         <p className="text-warning text-sm mt-1">{item.parsed.warnings.join(' ')}</p>
                       )}
@@ -541,13 +1165,18 @@ function App() {
                   )}
 
                   <div className="flex flex-col sm:flex-row gap-2">
-                    <button
-                      onClick={() => recognizeOcrItem(item)}
-                      className="btn-secondary w-full flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
-                      disabled={item.status === 'loading'}
-                    >
-                      识别
-                    </button>
+                    {item.status === 'loading' ? (
+                      <button onClick={() => handleCancelOcrItem(item.id)} className="btn-secondary w-full">
+                        取消
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => recognizeOcrItem(item)}
+                        className="btn-secondary w-full flex items-center justify-center gap-2"
+                      >
+                        识别
+                      </button>
+                    )}
                     <button
                       onClick={() => handleApplyParsed(item.parsed)}
                       className="btn-secondary w-full"
@@ -564,6 +1193,15 @@ function App() {
                     </button>
                   </div>
 
+                  {item.recognizedUrl && item.parsed && item.words.length > 0 && (
+                    <OcrBoxOverlay
+                      imageUrl={item.recognizedUrl}
+                      words={item.words}
+                      highlights={getFieldHighlights(item)}
+                      onCorrect={(field, text, wordIndex) => handleCorrectOcrField(item, field, text, wordIndex)}
+                    />
+                  )}
+
                   {item.text && (
                     <details className="text-xs text-muted-foreground">
                       <summary className="cursor-pointer">查看 OCR 原文</summary>
@@ -606,10 +1244,20 @@ function App() {
               <Sparkles className="w-4 h-4" />
               识别统计
             </button>
+            {statsOcrStatus === 'loading' && (
+              <button onClick={() => statsControllerRef.current?.abort()} className="btn-secondary">
+                取消
+              </button>
+            )}
             {statsOcrMessage && (
               <span className="text-sm text-muted-foreground">{statsOcrMessage}</span>
             )}
           </div>
+          {statsOcrLanguage && (
+            <div className="mb-4">
+              <OcrLanguageBadge language={statsOcrLanguage} />
+            </div>
+          )}
 
           {/* 手动输入 */}
           <div className="mb-4 p-4 bg-muted/30 rounded-lg">
@@ -709,7 +1357,7 @@ function App() {
         </section>
 
         {/* 录入表单 */}
-        <section className="card p-6 animate-slide-up">
+        <section ref={formSectionRef} className="card p-6 animate-slide-up">
           <h2 className="font-semibold text-foreground mb-4">录入打卡记录</h2>
           
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -723,27 +1371,15 @@ function App() {
               />
             </div>
             
-            <div>
-              <label className="block text-sm text-muted-foreground mb-2">上班时间</label>
-              <input
-                type="time"
-                value={formData.startTime}
-                onChange={e => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
-                className="input-field"
-              />
-            </div>
-            
-            <div>
-              <label className="block text-sm text-muted-foreground mb-2">下班时间</label>
-              <input
-                type="time"
-                value={formData.endTime}
-                onChange={e => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
-                className="input-field"
+            <div className="md:col-span-2">
+              <label className="block text-sm text-muted-foreground mb-2">工作时段（上班 - 下班）</label>
+              <SegmentInputs
+                segments={formData.segments}
+                onChange={segments => setFormData(prev => ({ ...prev, segments }))}
               />
             </div>
             
-            <div className="flex items-end">
+            <div className="flex items-start md:pt-7">
               <button onClick={handleAddRecord} className="btn-primary w-full flex items-center justify-center gap-2">
                 <Plus className="w-5 h-5" />
                 添加记录
@@ -758,32 +1394,44 @@ function App() {
                 <span className={isDateWeekend(formData.date) ? 'badge-primary' : 'badge-success'}>
                   {isDateWeekend(formData.date) ? '休息日' : '工作日'}
                 </span>
+                {getHolidayName(formData.date) && (
+                  <span className="text-muted-foreground">{getHolidayName(formData.date)}</span>
+                )}
+                {normalizeSegments(formData.segments).some(segment => segment.endsNextDay) && (
+                  <span className="badge-warning">次日下班</span>
+                )}
                 <span className="text-muted-foreground">
-                  工作时长：{formatMinutesToHours(calculateWorkedMinutes(formData.startTime, formData.endTime))}
+                  工作时长：{formatCreditedMinutes(formPreview.workedMinutes, formPreview.rawWorkedMinutes)}
                 </span>
                 <span className="text-primary font-medium">
-                  加班时长：{formatMinutesToHours(
-                    calculateOvertimeMinutes(
-                      calculateWorkedMinutes(formData.startTime, formData.endTime),
-                      isDateWeekend(formData.date) ? 'holiday' : 'workday'
-                    )
-                  )}
+                  加班时长：{formatCreditedMinutes(formPreview.overtimeMinutes, formPreview.rawOvertimeMinutes)}
                 </span>
               </div>
             </div>
           )}
         </section>
 
+        {/* 请假登记 */}
+        <LeavePanel
+          year={currentDate.getFullYear()}
+          leaves={leaves}
+          quotas={leaveQuotas}
+          onAdd={handleAddLeave}
+          onQuotaChange={handleLeaveQuotaChange}
+        />
+
         {/* 记录列表 */}
         <section className="card overflow-hidden animate-fade-in">
           <div className="p-6 border-b border-border">
             <div className="flex items-center justify-between">
-              <h2 className="font-semibold text-foreground">本月打卡记录</h2>
-              <span className="text-sm text-muted-foreground">{stats.recordCount} 条记录</span>
+              <h2 className="font-semibold text-foreground">{monthLabel}打卡记录</h2>
+              <span className="text-sm text-muted-foreground">
+                {stats.recordCount} 条记录{currentMonthLeaves.length > 0 ? ` · ${currentMonthLeaves.length} 条请假` : ''}
+              </span>
             </div>
           </div>
           
-          {currentMonthRecords.length === 0 ? (
+          {listItems.length === 0 ? (
             <div className="p-12 text-center text-muted-foreground">
               <Clock className="w-12 h-12 mx-auto mb-4 opacity-30" />
               <p>暂无打卡记录</p>
@@ -791,46 +1439,203 @@ function App() {
             </div>
           ) : (
             <div className="divide-y divide-border">
-              {currentMonthRecords.map(record => (
-                <div 
-                  key={record.id}
-                  className="p-4 hover:bg-muted/30 transition-colors flex items-center justify-between"
-                >
-                  <div className="flex items-center gap-4">
-                    <div className="w-12 h-12 rounded-lg bg-gradient-primary flex items-center justify-center text-primary-foreground font-bold">
-                      {record.date.slice(8)}
+              {listItems.map(({ record, leave }) => (
+                leave ? (
+                  <div key={leave.id} className="p-4 hover:bg-muted/30 transition-colors">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 rounded-lg bg-muted flex items-center justify-center text-foreground font-bold">
+                          {leave.date.slice(8)}
+                        </div>
+                        <div>
+                          <p className="font-medium text-foreground">{formatDate(leave.date)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {LEAVE_DURATION_LABELS[leave.duration]}
+                            {leave.note && <span className="ml-2 text-xs">{leave.note}</span>}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <span className={settings.leaveExemptTypes.includes(leave.type) ? 'badge-warning' : 'badge-primary'}>
+                          {LEAVE_TYPE_LABELS[leave.type]}
+                        </span>
+                        <button
+                          onClick={() => handleDeleteLeave(leave.id)}
+                          className="p-2 text-muted-foreground hover:text-danger hover:bg-danger/10 rounded-lg transition-colors"
+                          aria-label="删除请假"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-medium text-foreground">{formatDate(record.date)}</p>
-                      <p className="text-sm text-muted-foreground">
-                        {record.startTime} - {record.endTime}
-                      </p>
+                  </div>
+                ) : editingId === record.id ? (
+                  <div key={record.id} id={`record-${record.id}`} className="p-4 bg-muted/30 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      <div>
+                        <label className="block text-sm text-muted-foreground mb-1">日期</label>
+                        <input
+                          type="date"
+                          value={editForm.date}
+                          onChange={e => setEditForm(prev => ({ ...prev, date: e.target.value }))}
+                          className="input-field"
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="block text-sm text-muted-foreground mb-1">工作时段</label>
+                        <SegmentInputs
+                          segments={editForm.segments}
+                          onChange={segments => setEditForm(prev => ({ ...prev, segments }))}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm text-muted-foreground mb-1">修改人</label>
+                        <input
+                          type="text"
+                          value={editorName}
+                          placeholder="填写你的名字"
+                          onChange={e => setEditorName(e.target.value)}
+                          className="input-field"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-muted-foreground">
+                        工作时长：{formatCreditedMinutes(editPreview.workedMinutes, editPreview.rawWorkedMinutes)}
+                        {normalizeSegments(editForm.segments).some(segment => segment.endsNextDay) ? '（次日下班）' : ''}
+                      </span>
+                      <div className="flex gap-2">
+                        <button onClick={handleCancelEdit} className="btn-secondary">取消</button>
+                        <button onClick={handleSaveEdit} className="btn-secondary text-primary">保存修改</button>
+                      </div>
                     </div>
                   </div>
+                ) : (
+                  <div 
+                    key={record.id}
+                    className="p-4 hover:bg-muted/30 transition-colors"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 rounded-lg bg-gradient-primary flex items-center justify-center text-primary-foreground font-bold">
+                          {record.date.slice(8)}
+                        </div>
+                        <div>
+                          <p className="font-medium text-foreground">{formatDate(record.date)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatSegments(getRecordSegments(record))}
+                            {record.source === 'ocr' && <span className="ml-2 text-xs">截图导入</span>}
+                            {isRecordEdited(record) && <span className="ml-2 text-xs text-warning">已修改</span>}
+                            {conflictingIds.has(record.id) && <span className="ml-2 text-xs text-danger">记录冲突</span>}
+                            {record.punchStatus?.map(status => (
+                              <span key={status} className="ml-2 text-xs text-warning">{PUNCH_STATUS_LABELS[status]}</span>
+                            ))}
+                          </p>
+                        </div>
+                      </div>
                   
-                  <div className="flex items-center gap-4">
-                    <div className="text-right">
-                      <span className={record.type === 'holiday' ? 'badge-primary' : 'badge-success'}>
-                        {record.type === 'holiday' ? '休息日' : '工作日'}
-                      </span>
-                      <p className="text-sm text-muted-foreground mt-1">
-                        加班 <span className="text-primary font-medium">{formatMinutesToHours(record.overtimeMinutes)}</span>
-                      </p>
+                      <div className="flex items-center gap-4">
+                        <div className="text-right">
+                          {getHolidayName(record.date) && (
+                            <span className="text-xs text-muted-foreground mr-2">{getHolidayName(record.date)}</span>
+                          )}
+                          <span className={record.type === 'holiday' ? 'badge-primary' : 'badge-success'}>
+                            {OVERTIME_CATEGORY_LABELS[getRecordOvertimeCategory(record)]}
+                          </span>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            加班 <span className="text-primary font-medium">{formatMinutesToHours(record.overtimeMinutes)}</span>
+                          </p>
+                          {record.rawOvertimeMinutes !== undefined && record.rawOvertimeMinutes !== record.overtimeMinutes && (
+                            <p className="text-xs text-muted-foreground">实际 {formatMinutesToHours(record.rawOvertimeMinutes)}</p>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => handleStartEdit(record)}
+                          className="p-2 text-muted-foreground hover:text-primary hover:bg-primary/10 rounded-lg transition-colors"
+                          aria-label="编辑记录"
+                        >
+                          <Pencil className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRecord(record.id)}
+                          className="p-2 text-muted-foreground hover:text-danger hover:bg-danger/10 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </div>
                     </div>
-                    <button
-                      onClick={() => handleDeleteRecord(record.id)}
-                      className="p-2 text-muted-foreground hover:text-danger hover:bg-danger/10 rounded-lg transition-colors"
-                    >
-                      <Trash2 className="w-5 h-5" />
-                    </button>
+
+                    {isRecordEdited(record) && (
+                      <details className="mt-2 ml-16 text-xs text-muted-foreground">
+                        <summary className="cursor-pointer flex items-center gap-1">
+                          <History className="w-3 h-3" />
+                          修改历史（{record.history!.length}）
+                        </summary>
+                        <ul className="mt-2 space-y-1">
+                          {record.history!.map(change => (
+                            <li key={change.editedAt}>
+                              {format(new Date(change.editedAt), 'yyyy-MM-dd HH:mm')} · {change.editedBy} {change.reason === 'merge' ? '合并' : '修改'}，原值：
+                              {change.previous.date} {formatSegments(change.previous.segments)}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                   </div>
-                </div>
+                )
               ))}
             </div>
           )}
         </section>
+
+        {/* 考勤检查 */}
+        <CompliancePanel
+          result={compliance}
+          onSelectDay={date => handleSelectCalendarDay(date, records.find(record => record.date === date))}
+        />
+
+        {/* 周 / 月 / 季度 / 年报表 */}
+        <ReportPanel currentDate={currentDate} records={records} settings={settings} />
+
+        {/* 月度考勤识别 */}
+        <MonthlyAttendanceImport
+          currentDate={currentDate}
+          settings={settings}
+          onImport={handleImportRecords}
+          onRecognized={setDingTalkDays}
+        />
+
+        {/* 钉钉对账 */}
+        {(statsResult || dingTalkDays.length > 0) && (
+          <ReconciliationPanel
+            result={reconciliation}
+            statsMonthLabel={
+              statsResult && (statsResult.year !== currentDate.getFullYear() || statsResult.month !== currentDate.getMonth() + 1)
+                ? `${statsResult.year}年${statsResult.month}月`
+                : null
+            }
+            onSelectDay={date => handleSelectCalendarDay(date, records.find(record => record.date === date))}
+          />
+        )}
+
+        {/* 导出 / 导入 */}
+        <RecordTransferPanel
+          key={format(currentDate, 'yyyy-MM')}
+          records={records}
+          currentDate={currentDate}
+          settings={settings}
+          onImport={handleImportRecords}
+        />
       </main>
 
+      {pendingConflict && (
+        <ConflictDialog
+          incoming={pendingConflict.incoming}
+          conflicts={pendingConflict.conflicts}
+          onResolve={handleResolveConflict}
+        />
+      )}
+
       {/* 页脚 */}
       <footer className="py-8 text-center text-sm text-muted-foreground">
         <p>工时记录器 · 数据保存在本地浏览器中</p>
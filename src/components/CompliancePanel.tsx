@@ -0,0 +1,48 @@
+import { ShieldAlert } from 'lucide-react'
+import { formatDate } from '../utils/timeUtils'
+import { AnomalyKind, ComplianceResult, ANOMALY_KIND_LABELS } from '../utils/complianceUtils'
+
+interface CompliancePanelProps {
+  result: ComplianceResult
+  onSelectDay: (date: string) => void
+}
+
+// 考勤检查：当月迟到、早退、缺勤、缺下班卡的日期
+function CompliancePanel({ result, onSelectDay }: CompliancePanelProps) {
+  const { anomalies, counts } = result
+
+  return (
+    <section className="card p-6 animate-slide-up">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldAlert className="w-5 h-5 text-primary" />
+        <h2 className="font-semibold text-foreground">考勤检查</h2>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(ANOMALY_KIND_LABELS) as AnomalyKind[]).map(kind => (
+          <span key={kind} className={counts[kind] > 0 ? 'badge-warning' : 'badge-success'}>
+            {ANOMALY_KIND_LABELS[kind]} {counts[kind]} 次
+          </span>
+        ))}
+      </div>
+
+      {anomalies.length === 0 ? (
+        <p className="text-sm text-muted-foreground">本月没有考勤异常</p>
+      ) : (
+        <ul className="divide-y divide-border/50">
+          {anomalies.map(anomaly => (
+            <li key={`${anomaly.date}-${anomaly.kind}`} className="flex items-center gap-3 py-2 text-sm">
+              <button onClick={() => onSelectDay(anomaly.date)} className="text-primary hover:underline w-28 text-left">
+                {formatDate(anomaly.date)}
+              </button>
+              <span className="badge-warning">{ANOMALY_KIND_LABELS[anomaly.kind]}</span>
+              <span className="text-muted-foreground">{anomaly.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+export default CompliancePanel
@@ -0,0 +1,59 @@
+import { AlertTriangle } from 'lucide-react'
+import {
+  TimeRecord,
+  formatDate,
+  formatSegments,
+  getRecordSegments,
+  formatMinutesToHours
+} from '../utils/timeUtils'
+import { ConflictStrategy } from '../utils/conflictUtils'
+
+interface ConflictDialogProps {
+  incoming: TimeRecord
+  conflicts: TimeRecord[]
+  onResolve: (strategy: ConflictStrategy) => void
+}
+
+function RecordLine({ record }: { record: TimeRecord }) {
+  return (
+    <li className="flex items-center justify-between gap-3">
+      <span>{formatDate(record.date)} {formatSegments(getRecordSegments(record))}</span>
+      <span className="text-muted-foreground whitespace-nowrap">{formatMinutesToHours(record.workedMinutes)}</span>
+    </li>
+  )
+}
+
+// 新增记录与已有记录冲突时，让用户选择合并、替换或都保留
+function ConflictDialog({ incoming, conflicts, onResolve }: ConflictDialogProps) {
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="card p-6 w-full max-w-lg animate-slide-up">
+        <div className="flex items-center gap-2 mb-4">
+          <AlertTriangle className="w-5 h-5 text-warning" />
+          <h2 className="font-semibold text-foreground">记录冲突</h2>
+        </div>
+
+        <p className="text-sm text-muted-foreground mb-2">要添加的记录：</p>
+        <ul className="text-sm mb-4">
+          <RecordLine record={incoming} />
+        </ul>
+
+        <p className="text-sm text-muted-foreground mb-2">与以下已有记录同一天或时间重叠：</p>
+        <ul className="text-sm space-y-1 mb-6">
+          {conflicts.map(record => (
+            <RecordLine key={record.id} record={record} />
+          ))}
+        </ul>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => onResolve('merge')} className="btn-secondary">合并时段</button>
+          <button onClick={() => onResolve('replace')} className="btn-secondary">替换已有记录</button>
+          <button onClick={() => onResolve('keepBoth')} className="btn-secondary">都保留</button>
+          <button onClick={() => onResolve('skip')} className="btn-secondary">取消添加</button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ConflictDialog
@@ -0,0 +1,114 @@
+import { format, parse } from 'date-fns'
+import { zhCN } from 'date-fns/locale'
+import { TrendingUp } from 'lucide-react'
+import { formatMinutesToHours, getHolidayName } from '../utils/timeUtils'
+import { OvertimeForecast, RestDayPlan } from '../utils/forecastUtils'
+
+interface ForecastPanelProps {
+  forecast: OvertimeForecast
+  plan: RestDayPlan
+  onPlanChange: (date: string, minutes: number) => void
+}
+
+function formatDay(date: string): string {
+  return format(parse(date, 'yyyy-MM-dd', new Date()), 'M月d日 EEE', { locale: zhCN })
+}
+
+// 月底前的加班节奏：剩余天数、每天需加班多少、建议下班时间，以及休息日加班计划
+function ForecastPanel({ forecast, plan, onPlanChange }: ForecastPanelProps) {
+  const onTrack = forecast.projectedTotal >= forecast.requiredOvertime
+  const noDaysLeft = forecast.remainingWorkdays.length === 0 && forecast.remainingRestDays.length === 0
+
+  return (
+    <section className="card p-6 animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-primary" />
+          <h2 className="font-semibold text-foreground">加班节奏预测</h2>
+        </div>
+        {!noDaysLeft && (
+          <span className={onTrack ? 'badge-success' : 'badge-warning'}>
+            {onTrack ? '按目前节奏可以完成' : '按目前节奏完不成'}
+          </span>
+        )}
+      </div>
+
+      {noDaysLeft ? (
+        <p className="text-sm text-muted-foreground">本月已没有剩余日期</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <p className="text-sm text-muted-foreground">剩余工作日 / 休息日</p>
+              <p className="text-xl font-semibold text-foreground">
+                {forecast.remainingWorkdays.length} / {forecast.remainingRestDays.length}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">每个工作日需加班</p>
+              <p className="text-xl font-semibold text-foreground">
+                {forecast.remainingWorkdays.length > 0 ? formatMinutesToHours(forecast.neededPerWorkday) : '—'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">建议下班时间</p>
+              <p className="text-xl font-semibold text-foreground">
+                {forecast.suggestedClockOut
+                  ? `${forecast.suggestedClockOutNextDay ? '次日 ' : ''}${forecast.suggestedClockOut}`
+                  : '—'}
+              </p>
+              {forecast.suggestedClockOut && (
+                <p className="text-xs text-muted-foreground">按 {forecast.suggestedStartTime} 上班计算</p>
+              )}
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">月底预计加班</p>
+              <p className="text-xl font-semibold text-foreground">{formatMinutesToHours(forecast.projectedTotal)}</p>
+              <p className="text-xs text-muted-foreground">目标 {formatMinutesToHours(forecast.requiredOvertime)}</p>
+            </div>
+          </div>
+
+          {forecast.remainingOvertime === 0 && (
+            <p className="text-sm text-success mb-4">
+              {forecast.plannedRestDayMinutes > 0 ? '按计划完成休息日加班即可达标' : '本月加班目标已完成'}
+            </p>
+          )}
+
+          {forecast.remainingRestDays.length > 0 && (
+            <div>
+              <p className="text-sm text-muted-foreground mb-2">
+                休息日加班计划（已计划 {formatMinutesToHours(forecast.plannedRestDayMinutes)}，计入后工作日需加班相应减少）
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {forecast.remainingRestDays.map(date => (
+                  <label
+                    key={date}
+                    className="flex items-center gap-2 rounded-lg border border-border px-3 py-2 text-sm"
+                  >
+                    <span className="text-foreground whitespace-nowrap">
+                      {formatDay(date)}
+                      {getHolidayName(date) && <span className="text-muted-foreground"> {getHolidayName(date)}</span>}
+                    </span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="24"
+                      step="0.5"
+                      value={plan[date] ? plan[date] / 60 : ''}
+                      onChange={e => onPlanChange(date, Math.round((Number(e.target.value) || 0) * 60))}
+                      placeholder="0"
+                      className="input-field w-20 py-1"
+                    />
+                    <span className="text-muted-foreground">小时</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
+
+export default ForecastPanel
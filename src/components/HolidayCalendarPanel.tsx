@@ -0,0 +1,118 @@
+import { useState, type ChangeEvent } from 'react'
+import { CalendarDays, Upload, Trash2 } from 'lucide-react'
+import {
+  HolidayCalendar,
+  getHolidayCalendars,
+  getActiveRegion,
+  getAvailableRegions,
+  parseHolidayCalendarFile
+} from '../utils/holidayUtils'
+
+interface HolidayCalendarPanelProps {
+  onImport: (calendars: HolidayCalendar[]) => void
+  onRemove: (region: string, year: number) => void
+  onRegionChange: (region: string) => void
+}
+
+// 节假日日历管理：查看已加载的日历、导入 JSON/ICS 文件、切换地区
+function HolidayCalendarPanel({ onImport, onRemove, onRegionChange }: HolidayCalendarPanelProps) {
+  const [importRegion, setImportRegion] = useState(getActiveRegion())
+  const [message, setMessage] = useState('')
+  const [isError, setIsError] = useState(false)
+  const calendars = getHolidayCalendars()
+  const activeRegion = getActiveRegion()
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const text = await file.text()
+      const parsed = parseHolidayCalendarFile(file.name, text, importRegion.trim() || activeRegion)
+      onImport(parsed)
+      setIsError(false)
+      setMessage(`已导入 ${parsed.map(calendar => `${calendar.region} ${calendar.year}`).join('、')}`)
+    } catch (error) {
+      setIsError(true)
+      setMessage(error instanceof Error ? `导入失败：${error.message}` : '导入失败')
+    }
+  }
+
+  return (
+    <section className="card p-6 animate-slide-up">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-primary" />
+          <h2 className="font-semibold text-foreground">节假日日历</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-muted-foreground whitespace-nowrap">当前地区</label>
+          <select
+            value={activeRegion}
+            onChange={e => onRegionChange(e.target.value)}
+            className="input-field py-2"
+          >
+            {getAvailableRegions().map(region => (
+              <option key={region} value={region}>{region}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="divide-y divide-border border border-border rounded-lg mb-4">
+        {calendars.map(calendar => (
+          <div key={`${calendar.region}-${calendar.year}`} className="p-3 flex items-center justify-between text-sm">
+            <div>
+              <span className="font-medium text-foreground">{calendar.name}</span>
+              <span className="text-muted-foreground ml-2">
+                {calendar.region} · 放假 {calendar.holidays.length} 天 · 调休 {calendar.workdays.length} 天
+              </span>
+            </div>
+            {calendar.source === 'imported' ? (
+              <button
+                onClick={() => onRemove(calendar.region, calendar.year)}
+                className="p-1 rounded-md text-muted-foreground hover:text-danger hover:bg-danger/10"
+                aria-label="删除导入的日历"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            ) : (
+              <span className="text-xs text-muted-foreground">内置</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-muted-foreground whitespace-nowrap">导入地区</label>
+          <input
+            type="text"
+            value={importRegion}
+            onChange={e => setImportRegion(e.target.value.toUpperCase())}
+            className="input-field py-2 w-24"
+          />
+        </div>
+        <input
+          id="holiday-upload"
+          type="file"
+          accept=".json,.ics,application/json,text/calendar"
+          onChange={handleFileChange}
+          className="sr-only"
+        />
+        <label htmlFor="holiday-upload" className="btn-secondary flex items-center justify-center gap-2">
+          <Upload className="w-4 h-4" />
+          导入日历文件
+        </label>
+        <p className="text-sm text-muted-foreground">支持 JSON（version 1）或 ICS，地区仅用于 ICS 文件</p>
+      </div>
+
+      {message && (
+        <p className={`text-sm mt-3 ${isError ? 'text-danger' : 'text-success'}`}>{message}</p>
+      )}
+    </section>
+  )
+}
+
+export default HolidayCalendarPanel
@@ -0,0 +1,159 @@
+import { useRef, useState, type PointerEvent } from 'react'
+import { Crop } from 'lucide-react'
+import { CropRegion, PreprocessOptions, hasPreprocessing } from '../utils/imagePreprocessUtils'
+
+interface ImagePreprocessPanelProps {
+  previewUrl: string
+  processedUrl: string | null
+  failed: boolean // 预处理出错
+  options: PreprocessOptions
+  onChange: (options: PreprocessOptions) => void
+}
+
+type ToggleKey = 'grayscale' | 'contrast' | 'threshold' | 'invertDark' | 'upscale'
+
+const TOGGLES: { key: ToggleKey; label: string }[] = [
+  { key: 'grayscale', label: '灰度' },
+  { key: 'contrast', label: '增强对比度' },
+  { key: 'threshold', label: '二值化' },
+  { key: 'invertDark', label: '深色反色' },
+  { key: 'upscale', label: '放大小图' }
+]
+
+// 框选面积太小时视为误触
+const MIN_CROP_SIZE = 0.02
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value))
+}
+
+function toRegion(start: { x: number; y: number }, end: { x: number; y: number }): CropRegion {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y)
+  }
+}
+
+// OCR 前的图片处理选项：各步骤开关、在原图上框选识别区域、处理前后对比
+function ImagePreprocessPanel({ previewUrl, processedUrl, failed, options, onChange }: ImagePreprocessPanelProps) {
+  const imageRef = useRef<HTMLImageElement>(null)
+  const [cropping, setCropping] = useState(false)
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null)
+  const [draft, setDraft] = useState<CropRegion | null>(null)
+
+  const getPoint = (event: PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect()
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height)
+    }
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!cropping) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const point = getPoint(event)
+    setDragStart(point)
+    setDraft(toRegion(point, point))
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return
+    setDraft(toRegion(dragStart, getPoint(event)))
+  }
+
+  const handlePointerUp = () => {
+    if (!dragStart) return
+    if (draft && draft.width >= MIN_CROP_SIZE && draft.height >= MIN_CROP_SIZE) {
+      onChange({ ...options, crop: draft })
+      setCropping(false)
+    }
+    setDragStart(null)
+    setDraft(null)
+  }
+
+  const region = draft ?? options.crop
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <p className="text-xs text-muted-foreground mb-1">{cropping ? '拖动框选识别区域' : '原图'}</p>
+          <div
+            className={`relative inline-block select-none touch-none ${cropping ? 'cursor-crosshair' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img
+              ref={imageRef}
+              src={previewUrl}
+              alt="钉钉打卡截图预览"
+              draggable={false}
+              className="block max-h-72 w-auto max-w-full rounded-lg"
+            />
+            {region && (
+              <div
+                className="absolute border-2 border-primary bg-primary/10 pointer-events-none"
+                style={{
+                  left: `${region.x * 100}%`,
+                  top: `${region.y * 100}%`,
+                  width: `${region.width * 100}%`,
+                  height: `${region.height * 100}%`
+                }}
+              />
+            )}
+          </div>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground mb-1">处理后</p>
+          {processedUrl ? (
+            <img
+              src={processedUrl}
+              alt="预处理后的截图"
+              className="block max-h-72 w-auto max-w-full rounded-lg border border-border"
+            />
+          ) : failed ? (
+            <p className="text-xs text-danger">预处理失败，将直接识别原图</p>
+          ) : hasPreprocessing(options) ? (
+            <p className="text-xs text-muted-foreground">处理中...</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">未启用处理，将直接识别原图</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        {TOGGLES.map(toggle => (
+          <label key={toggle.key} className="flex items-center gap-1 text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={options[toggle.key]}
+              onChange={e => onChange({ ...options, [toggle.key]: e.target.checked })}
+            />
+            {toggle.label}
+          </label>
+        ))}
+        <button
+          onClick={() => setCropping(prev => !prev)}
+          className={`flex items-center gap-1 ${cropping ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+        >
+          <Crop className="w-4 h-4" />
+          {cropping ? '取消框选' : '框选区域'}
+        </button>
+        {options.crop && (
+          <button
+            onClick={() => onChange({ ...options, crop: null })}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            清除裁剪
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ImagePreprocessPanel
@@ -0,0 +1,122 @@
+import { useState } from 'react'
+import { Plane, Plus } from 'lucide-react'
+import { getTodayString } from '../utils/timeUtils'
+import {
+  LeaveType,
+  LeaveDuration,
+  LeaveRecord,
+  LeaveQuotas,
+  LEAVE_TYPE_LABELS,
+  LEAVE_DURATION_LABELS,
+  getLeaveBalances
+} from '../utils/leaveUtils'
+
+interface LeavePanelProps {
+  year: number
+  leaves: LeaveRecord[]
+  quotas: LeaveQuotas
+  onAdd: (fields: Pick<LeaveRecord, 'date' | 'type' | 'duration' | 'note'>) => void
+  onQuotaChange: (type: LeaveType, days: number | null) => void
+}
+
+// 请假登记与年度假期余额
+function LeavePanel({ year, leaves, quotas, onAdd, onQuotaChange }: LeavePanelProps) {
+  const [date, setDate] = useState(getTodayString)
+  const [type, setType] = useState<LeaveType>('annual')
+  const [duration, setDuration] = useState<LeaveDuration>('full')
+  const [note, setNote] = useState('')
+  const balances = getLeaveBalances(leaves, quotas, year)
+
+  const handleAdd = () => {
+    if (!date) return
+    onAdd({ date, type, duration, ...(note.trim() ? { note: note.trim() } : {}) })
+    setNote('')
+  }
+
+  return (
+    <section className="card p-6 animate-slide-up">
+      <div className="flex items-center gap-2 mb-4">
+        <Plane className="w-5 h-5 text-primary" />
+        <h2 className="font-semibold text-foreground">请假登记</h2>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+        <input
+          type="date"
+          value={date}
+          onChange={e => setDate(e.target.value)}
+          className="input-field"
+          aria-label="请假日期"
+        />
+        <select value={type} onChange={e => setType(e.target.value as LeaveType)} className="input-field" aria-label="假期类型">
+          {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map(item => (
+            <option key={item} value={item}>{LEAVE_TYPE_LABELS[item]}</option>
+          ))}
+        </select>
+        <select
+          value={duration}
+          onChange={e => setDuration(e.target.value as LeaveDuration)}
+          className="input-field"
+          aria-label="请假时长"
+        >
+          {(Object.keys(LEAVE_DURATION_LABELS) as LeaveDuration[]).map(item => (
+            <option key={item} value={item}>{LEAVE_DURATION_LABELS[item]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={note}
+          placeholder="备注（可选）"
+          onChange={e => setNote(e.target.value)}
+          className="input-field"
+        />
+        <button
+          onClick={handleAdd}
+          className="btn-primary flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={!date}
+        >
+          <Plus className="w-4 h-4" />
+          添加请假
+        </button>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-2">{year} 年假期余额（额度留空表示不限）</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="py-2 pr-4 font-normal">类型</th>
+              <th className="py-2 pr-4 font-normal">年度额度（天）</th>
+              <th className="py-2 pr-4 font-normal">已用</th>
+              <th className="py-2 font-normal">剩余</th>
+            </tr>
+          </thead>
+          <tbody>
+            {balances.map(balance => (
+              <tr key={balance.type} className="border-b border-border/50">
+                <td className="py-2 pr-4 text-foreground">{LEAVE_TYPE_LABELS[balance.type]}</td>
+                <td className="py-2 pr-4">
+                  <input
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    value={balance.quota ?? ''}
+                    onChange={e => onQuotaChange(balance.type, e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value)))}
+                    className="input-field py-1 w-24"
+                    aria-label={`${LEAVE_TYPE_LABELS[balance.type]}额度`}
+                  />
+                </td>
+                <td className="py-2 pr-4 text-foreground">{balance.used} 天</td>
+                <td className={`py-2 ${balance.remaining !== null && balance.remaining < 0 ? 'text-danger' : 'text-foreground'}`}>
+                  {balance.remaining === null ? '—' : `${balance.remaining} 天`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
+
+export default LeavePanel
@@ -0,0 +1,127 @@
+import { useMemo } from 'react'
+import {
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  eachDayOfInterval,
+  format,
+  isSameMonth,
+  isAfter,
+  startOfDay
+} from 'date-fns'
+import { CalendarDays } from 'lucide-react'
+import {
+  TimeRecord,
+  DayKind,
+  getDayKind,
+  getHolidayName,
+  formatMinutesToHours
+} from '../utils/timeUtils'
+
+interface MonthCalendarProps {
+  currentDate: Date
+  records: TimeRecord[]
+  onSelectDay: (date: string, record: TimeRecord | undefined) => void
+}
+
+const WEEKDAY_LABELS = ['一', '二', '三', '四', '五', '六', '日']
+
+const DAY_KIND_LABELS: Record<DayKind, string> = {
+  workday: '',
+  weekend: '周末',
+  holiday: '假',
+  makeupWorkday: '班'
+}
+
+// 按加班时长分级着色
+function getHeatClass(overtimeMinutes: number): string {
+  if (overtimeMinutes <= 0) return 'bg-muted/40'
+  if (overtimeMinutes < 60) return 'bg-primary/15'
+  if (overtimeMinutes < 120) return 'bg-primary/30'
+  if (overtimeMinutes < 240) return 'bg-primary/50'
+  return 'bg-primary/75 text-primary-foreground'
+}
+
+// 月历热力图：按天显示加班时长和日期类型，点击日期新增或编辑记录
+function MonthCalendar({ currentDate, records, onSelectDay }: MonthCalendarProps) {
+  const recordsByDate = useMemo(() => {
+    const map = new Map<string, TimeRecord[]>()
+    records.forEach(record => map.set(record.date, [...(map.get(record.date) ?? []), record]))
+    return map
+  }, [records])
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(currentDate), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(currentDate), { weekStartsOn: 1 })
+  })
+  const today = startOfDay(new Date())
+
+  return (
+    <section className="card p-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-primary" />
+          <h2 className="font-semibold text-foreground">加班日历</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-muted/40" />无加班</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-primary/15" />&lt;1h</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-primary/30" />&lt;2h</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-primary/50" />&lt;4h</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-primary/75" />≥4h</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border border-dashed border-warning" />工作日未记录</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs text-muted-foreground mb-1">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label}>{label}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {days.map(day => {
+          const dateStr = format(day, 'yyyy-MM-dd')
+          if (!isSameMonth(day, currentDate)) {
+            return <div key={dateStr} className="aspect-square" />
+          }
+
+          const dayRecords = recordsByDate.get(dateStr) ?? []
+          const overtime = dayRecords.reduce((sum, record) => sum + record.overtimeMinutes, 0)
+          const kind = getDayKind(dateStr)
+          const isWorkday = kind === 'workday' || kind === 'makeupWorkday'
+          const isMissing = isWorkday && dayRecords.length === 0 && !isAfter(day, today)
+          const holidayName = getHolidayName(dateStr)
+
+          return (
+            <button
+              key={dateStr}
+              onClick={() => onSelectDay(dateStr, dayRecords[0])}
+              title={[
+                dateStr,
+                holidayName,
+                dayRecords.length > 0 ? `加班 ${formatMinutesToHours(overtime)}` : isMissing ? '工作日未记录' : ''
+              ].filter(Boolean).join(' · ')}
+              className={`aspect-square rounded-md p-1 flex flex-col items-center justify-between text-xs transition-all hover:ring-2 hover:ring-primary/40 ${
+                dayRecords.length > 0 ? getHeatClass(overtime) : 'bg-background'
+              } ${isMissing ? 'border border-dashed border-warning' : 'border border-border/50'}`}
+            >
+              <span className={`font-medium ${isWorkday ? '' : 'text-danger'}`}>{day.getDate()}</span>
+              {DAY_KIND_LABELS[kind] && (
+                <span className={kind === 'makeupWorkday' ? 'text-warning' : 'text-danger'}>
+                  {DAY_KIND_LABELS[kind]}
+                </span>
+              )}
+              {dayRecords.length > 0 && overtime > 0 && (
+                <span className="hidden sm:block">{(overtime / 60).toFixed(1)}h</span>
+              )}
+            </button>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
+
+export default MonthCalendar
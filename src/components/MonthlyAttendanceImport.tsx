@@ -0,0 +1,267 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react'
+import { CalendarRange, Upload, Sparkles } from 'lucide-react'
+import {
+  TimeRecord,
+  WorkSegment,
+  PunchStatus,
+  PUNCH_STATUS_LABELS,
+  createRecord,
+  formatDate
+} from '../utils/timeUtils'
+import { WorkSettings } from '../utils/settingsUtils'
+import { ConflictStrategy, ConflictSummary } from '../utils/conflictUtils'
+import { ParsedDingTalkMonthDay, parseDingTalkMonthText } from '../utils/ocrUtils'
+import { OCR_STAGE_LABELS, recognizeImage, getOcrErrorKind } from '../utils/ocrService'
+import { DEFAULT_PREPROCESS_OPTIONS, preprocessImage } from '../utils/imagePreprocessUtils'
+import SegmentInputs from './SegmentInputs'
+import OcrLanguageBadge from './OcrLanguageBadge'
+
+interface MonthlyAttendanceImportProps {
+  currentDate: Date
+  settings: WorkSettings
+  onImport: (records: TimeRecord[], strategy: ConflictStrategy) => ConflictSummary
+  onRecognized?: (days: ParsedDingTalkMonthDay[]) => void // 识别完成后提供逐日打卡，用于对账
+}
+
+// 识别结果表格中的一行，保存前可修改
+interface MonthRow {
+  date: string
+  segments: WorkSegment[]
+  statuses: PunchStatus[]
+  warnings: string[]
+  selected: boolean
+}
+
+// 整月截图文字较多，识别超时放宽
+const MONTH_OCR_TIMEOUT_MS = 90000
+
+// 钉钉月度考勤截图识别：一张图识别多天的打卡，核对后批量保存
+function MonthlyAttendanceImport({ currentDate, settings, onImport, onRecognized }: MonthlyAttendanceImportProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [language, setLanguage] = useState<string | null>(null)
+  const [rows, setRows] = useState<MonthRow[]>([])
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip')
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl)
+    }
+  }, [previewUrl])
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort()
+  }, [])
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    event.target.value = ''
+    if (!selected) return
+    controllerRef.current?.abort()
+    setFile(selected)
+    setPreviewUrl(URL.createObjectURL(selected))
+    setRows([])
+    setWarnings([])
+    setLanguage(null)
+    setMessage('已选择图片，点击“识别月度考勤”开始')
+  }
+
+  const handleRecognize = async () => {
+    if (!file) return
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setLoading(true)
+    setMessage('预处理图片...')
+
+    try {
+      const image = await preprocessImage(file, DEFAULT_PREPROCESS_OPTIONS).catch(() => file)
+      const result = await recognizeImage(image, {
+        signal: controller.signal,
+        timeoutMs: MONTH_OCR_TIMEOUT_MS,
+        onProgress: ({ stage, progress }) =>
+          setMessage(`${OCR_STAGE_LABELS[stage]}${progress !== null ? ` ${progress}%` : ''}`)
+      })
+      const parsed = parseDingTalkMonthText(result.text, currentDate)
+      setLanguage(result.language)
+      setWarnings(parsed.warnings)
+      onRecognized?.(parsed.days)
+      setRows(parsed.days.map(day => ({
+        date: day.date,
+        segments: day.segments,
+        statuses: day.statuses,
+        warnings: day.warnings,
+        selected: day.isValid
+      })))
+      setMessage(`识别到 ${parsed.year} 年 ${parsed.month} 月 ${parsed.days.length} 天，请核对后保存`)
+    } catch (error) {
+      const kind = getOcrErrorKind(error)
+      setMessage(kind === 'cancelled' ? '已取消识别' : kind === 'timeout' ? '识别超时，请裁剪截图后重试' : '识别失败，请更换清晰截图')
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null
+      setLoading(false)
+    }
+  }
+
+  const updateRow = (index: number, updates: Partial<MonthRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)))
+  }
+
+  const savableRows = rows.filter(row => row.selected && row.segments.length > 0 &&
+    row.segments.every(segment => segment.startTime && segment.endTime))
+
+  const handleSave = () => {
+    const records = savableRows.map(row => ({
+      ...createRecord({ date: row.date, segments: row.segments }, 'ocr', settings),
+      ...(row.statuses.length > 0 ? { punchStatus: row.statuses } : {})
+    }))
+    const summary = onImport(records, strategy)
+    setMessage(`新增 ${summary.added} 条，合并 ${summary.merged} 条，替换 ${summary.replaced} 条，跳过 ${summary.skipped} 条`)
+    const saved = new Set(savableRows.map(row => row.date))
+    setRows(prev => prev.filter(row => !saved.has(row.date)))
+  }
+
+  return (
+    <section className="card p-6 animate-slide-up">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="w-5 h-5 text-primary" />
+          <h2 className="font-semibold text-foreground">钉钉月度考勤识别</h2>
+        </div>
+        <span className="text-sm text-muted-foreground">一张考勤月历或打卡明细截图导入多天记录</span>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-3 mb-4">
+        <input
+          id="month-upload"
+          type="file"
+          accept="image/*"
+          onChange={handleFileChange}
+          className="sr-only"
+        />
+        <label htmlFor="month-upload" className="btn-secondary flex items-center justify-center gap-2">
+          <Upload className="w-4 h-4" />
+          选择考勤截图
+        </label>
+        <button
+          onClick={handleRecognize}
+          className="btn-primary flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={!file || loading}
+        >
+          <Sparkles className="w-4 h-4" />
+          识别月度考勤
+        </button>
+        {loading && (
+          <button onClick={() => controllerRef.current?.abort()} className="btn-secondary">
+            取消
+          </button>
+        )}
+        {message && <span className="text-sm text-muted-foreground">{message}</span>}
+      </div>
+
+      {language && (
+        <div className="mb-4">
+          <OcrLanguageBadge language={language} />
+        </div>
+      )}
+
+      {previewUrl && rows.length === 0 && (
+        <img src={previewUrl} alt="钉钉月度考勤截图" className="max-w-xs rounded-lg border border-border mb-4" />
+      )}
+
+      {warnings.length > 0 && (
+        <p className="text-sm text-warning mb-4">{warnings.join(' ')}</p>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-2 font-normal">
+                    <input
+                      type="checkbox"
+                      checked={rows.every(row => row.selected)}
+                      onChange={e => setRows(prev => prev.map(row => ({ ...row, selected: e.target.checked })))}
+                      aria-label="全选"
+                    />
+                  </th>
+                  <th className="py-2 pr-4 font-normal">日期</th>
+                  <th className="py-2 pr-4 font-normal">工作时段</th>
+                  <th className="py-2 font-normal">状态</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={row.date} className="border-b border-border/50 align-top">
+                    <td className="py-3 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={row.selected}
+                        onChange={e => updateRow(index, { selected: e.target.checked })}
+                        aria-label={`导入 ${row.date}`}
+                      />
+                    </td>
+                    <td className="py-3 pr-4 whitespace-nowrap text-foreground">{formatDate(row.date)}</td>
+                    <td className="py-3 pr-4">
+                      {row.segments.length > 0 ? (
+                        <SegmentInputs segments={row.segments} onChange={segments => updateRow(index, { segments })} />
+                      ) : (
+                        <button
+                          onClick={() => updateRow(index, { segments: [{ startTime: '09:00', endTime: '18:00' }], selected: true })}
+                          className="text-primary hover:underline"
+                        >
+                          手动填写时段
+                        </button>
+                      )}
+                    </td>
+                    <td className="py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {row.statuses.map(status => (
+                          <span key={status} className="badge-warning">{PUNCH_STATUS_LABELS[status]}</span>
+                        ))}
+                      </div>
+                      {row.warnings.length > 0 && (
+                        <p className="text-xs text-warning mt-1">{row.warnings.join('，')}</p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-muted-foreground whitespace-nowrap">与已有记录冲突时</label>
+              <select
+                value={strategy}
+                onChange={e => setStrategy(e.target.value as ConflictStrategy)}
+                className="input-field py-2"
+              >
+                <option value="skip">跳过</option>
+                <option value="merge">合并时段</option>
+                <option value="replace">替换</option>
+                <option value="keepBoth">都保留</option>
+              </select>
+            </div>
+            <button
+              onClick={handleSave}
+              className="btn-primary disabled:opacity-60 disabled:cursor-not-allowed"
+              disabled={savableRows.length === 0}
+            >
+              保存选中的 {savableRows.length} 天
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
+
+export default MonthlyAttendanceImport
@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { OcrWord } from '../utils/ocrService'
+import { OcrField } from '../utils/ocrUtils'
+
+interface OcrBoxOverlayProps {
+  imageUrl: string
+  words: OcrWord[]
+  highlights: Partial<Record<number, OcrField>> // 单词序号 → 该单词提供的字段
+  onCorrect: (field: OcrField, text: string, wordIndex: number) => boolean // 无法解析时返回 false
+}
+
+const FIELD_LABELS: Record<OcrField, string> = {
+  date: '日期',
+  start: '上班时间',
+  end: '下班时间'
+}
+
+const FIELD_BOX_CLASSES: Record<OcrField, string> = {
+  date: 'border-primary bg-primary/20',
+  start: 'border-success bg-success/20',
+  end: 'border-warning bg-warning/20'
+}
+
+// 在识别所用的图片上画出每个单词的位置，点击后可把该单词指定为日期或上下班时间，并修改文字
+function OcrBoxOverlay({ imageUrl, words, highlights, onCorrect }: OcrBoxOverlayProps) {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null)
+  const [selected, setSelected] = useState<number | null>(null)
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState('')
+
+  const handleSelect = (index: number) => {
+    setSelected(index)
+    setDraft(words[index].text)
+    setError('')
+  }
+
+  const handleAssign = (field: OcrField) => {
+    if (selected === null) return
+    if (onCorrect(field, draft, selected)) {
+      setSelected(null)
+      setError('')
+    } else {
+      setError(field === 'date' ? '无法识别为日期，请修改文字，如 2024-01-05' : '无法识别为时间，请修改文字，如 18:30')
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <span>点击文字框可修正识别结果：</span>
+        {(Object.keys(FIELD_LABELS) as OcrField[]).map(field => (
+          <span key={field} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 border-2 ${FIELD_BOX_CLASSES[field]}`} />
+            {FIELD_LABELS[field]}
+          </span>
+        ))}
+      </div>
+
+      <div className="relative inline-block self-start">
+        <img
+          src={imageUrl}
+          alt="识别区域"
+          onLoad={e => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          className="block max-h-96 w-auto max-w-full rounded-lg"
+        />
+        {size && words.map((word, index) => {
+          if (!word.text.trim()) return null
+          const field = highlights[index]
+          return (
+            <button
+              key={index}
+              onClick={() => handleSelect(index)}
+              title={`${word.text}（置信度 ${Math.round(word.confidence)}%）`}
+              className={`absolute border ${field ? `border-2 ${FIELD_BOX_CLASSES[field]}` : 'border-muted-foreground/40 hover:bg-muted-foreground/10'} ${selected === index ? 'ring-2 ring-foreground' : ''}`}
+              style={{
+                left: `${(word.bbox.x0 / size.width) * 100}%`,
+                top: `${(word.bbox.y0 / size.height) * 100}%`,
+                width: `${((word.bbox.x1 - word.bbox.x0) / size.width) * 100}%`,
+                height: `${((word.bbox.y1 - word.bbox.y0) / size.height) * 100}%`
+              }}
+            />
+          )
+        })}
+      </div>
+
+      {selected !== null && (
+        <div className="rounded-lg border border-border p-3 flex flex-col gap-2 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground whitespace-nowrap">识别文字</span>
+            <input value={draft} onChange={e => setDraft(e.target.value)} className="input-field py-1" />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(FIELD_LABELS) as OcrField[]).map(field => (
+              <button key={field} onClick={() => handleAssign(field)} className="btn-secondary py-1">
+                作为{FIELD_LABELS[field]}
+              </button>
+            ))}
+            <button onClick={() => setSelected(null)} className="text-muted-foreground hover:text-foreground px-2">
+              取消
+            </button>
+          </div>
+          {error && <p className="text-danger text-xs">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default OcrBoxOverlay
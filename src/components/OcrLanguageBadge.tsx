@@ -0,0 +1,18 @@
+import { OCR_LANGUAGE_LABELS } from '../utils/ocrService'
+
+interface OcrLanguageBadgeProps {
+  language: string
+}
+
+// 显示本次识别实际使用的语言模型，退回英文模型时给出提示
+function OcrLanguageBadge({ language }: OcrLanguageBadgeProps) {
+  const isChinese = language.split('+').includes('chi_sim')
+  return (
+    <p className={`text-xs ${isChinese ? 'text-muted-foreground' : 'text-warning'}`}>
+      识别模型：{OCR_LANGUAGE_LABELS[language] ?? language}
+      {!isChinese && '（中文模型加载失败，无法识别“上班”“下班”等中文，请核对结果）'}
+    </p>
+  )
+}
+
+export default OcrLanguageBadge
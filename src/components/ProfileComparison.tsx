@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Users } from 'lucide-react'
+import {
+  TimeRecord,
+  getWorkdaysInMonth,
+  getRequiredOvertimeMinutes,
+  filterCurrentMonthRecords,
+  formatMinutesToHours
+} from '../utils/timeUtils'
+import { WorkSettings, loadSettings } from '../utils/settingsUtils'
+import { Profile } from '../utils/profileUtils'
+import { loadProfileRegion, withHolidayRegion } from '../utils/holidayUtils'
+import { loadRecordsFromStorage } from '../utils/storageUtils'
+import { LeaveRecord, getMonthExemptLeaveDays, loadLeaves } from '../utils/leaveUtils'
+
+interface ProfileComparisonProps {
+  profiles: Profile[]
+  activeProfileId: string
+  currentDate: Date
+  records: TimeRecord[] // 当前档案的记录（未保存的修改也计入）
+  settings: WorkSettings
+  leaves: LeaveRecord[]
+  holidayVersion: number
+  onSwitch: (profileId: string) => void
+}
+
+interface ComparisonRow {
+  profile: Profile
+  recordCount: number
+  totalOvertime: number
+  requiredOvertime: number
+  progress: number
+}
+
+// 各档案当月加班对比：每个档案按自己的工时规则、节假日地区和请假计算应加班时长
+function ProfileComparison({
+  profiles,
+  activeProfileId,
+  currentDate,
+  records,
+  settings,
+  leaves,
+  holidayVersion,
+  onSwitch
+}: ProfileComparisonProps) {
+  const [otherRecords, setOtherRecords] = useState<Record<string, TimeRecord[]>>({})
+
+  useEffect(() => {
+    let cancelled = false
+    const others = profiles.filter(profile => profile.id !== activeProfileId)
+    Promise.all(others.map(profile => loadRecordsFromStorage(profile.id))).then(results => {
+      if (cancelled) return
+      setOtherRecords(Object.fromEntries(others.map((profile, index) => [profile.id, results[index].records])))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [profiles, activeProfileId])
+
+  const rows = useMemo<ComparisonRow[]>(() => profiles.map(profile => {
+    const isActive = profile.id === activeProfileId
+    const profileSettings = isActive ? settings : loadSettings(profile.id)
+    const profileRecords = filterCurrentMonthRecords(
+      isActive ? records : otherRecords[profile.id] ?? [],
+      currentDate
+    )
+    const profileLeaves = isActive ? leaves : loadLeaves(profile.id)
+    const [workdays, leaveDays] = withHolidayRegion(loadProfileRegion(profile.id), () => [
+      getWorkdaysInMonth(currentDate),
+      getMonthExemptLeaveDays(profileLeaves, currentDate, profileSettings)
+    ])
+    const requiredOvertime = getRequiredOvertimeMinutes(workdays, profileSettings, leaveDays)
+    const totalOvertime = profileRecords.reduce((sum, record) => sum + record.overtimeMinutes, 0)
+    return {
+      profile,
+      recordCount: profileRecords.length,
+      totalOvertime,
+      requiredOvertime,
+      progress: requiredOvertime > 0 ? Math.min(100, (totalOvertime / requiredOvertime) * 100) : 0
+    }
+  }), [profiles, activeProfileId, records, settings, leaves, otherRecords, currentDate, holidayVersion])
+
+  return (
+    <section className="card p-6 animate-slide-up">
+      <div className="flex items-center gap-2 mb-4">
+        <Users className="w-5 h-5 text-primary" />
+        <h2 className="font-semibold text-foreground">档案加班对比</h2>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="py-2 pr-4 font-normal">档案</th>
+              <th className="py-2 pr-4 font-normal">记录</th>
+              <th className="py-2 pr-4 font-normal">已加班</th>
+              <th className="py-2 pr-4 font-normal">应加班</th>
+              <th className="py-2 font-normal">完成度</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.profile.id} className="border-b border-border/50">
+                <td className="py-2 pr-4">
+                  {row.profile.id === activeProfileId ? (
+                    <span className="font-medium text-primary">{row.profile.name}（当前）</span>
+                  ) : (
+                    <button onClick={() => onSwitch(row.profile.id)} className="text-foreground hover:text-primary">
+                      {row.profile.name}
+                    </button>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-foreground">{row.recordCount} 条</td>
+                <td className="py-2 pr-4 text-foreground">{formatMinutesToHours(row.totalOvertime)}</td>
+                <td className="py-2 pr-4 text-foreground">{formatMinutesToHours(row.requiredOvertime)}</td>
+                <td className="py-2">
+                  <div className="flex items-center gap-2">
+                    <div className="progress-bar w-24">
+                      <div className="progress-fill" style={{ width: `${row.progress}%` }} />
+                    </div>
+                    <span className="text-muted-foreground">{Math.round(row.progress)}%</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
+
+export default ProfileComparison
@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { Users, UserPlus, Pencil, Trash2, Check, X } from 'lucide-react'
+import { Profile, DEFAULT_PROFILE_ID } from '../utils/profileUtils'
+
+interface ProfileSwitcherProps {
+  profiles: Profile[]
+  activeProfileId: string
+  onSwitch: (profileId: string) => void
+  onAdd: (name: string) => void
+  onRename: (profileId: string, name: string) => void
+  onDelete: (profileId: string) => void
+}
+
+type Mode = 'idle' | 'add' | 'rename' | 'delete'
+
+const HEADER_BUTTON_CLASS = 'p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors'
+
+// 头部的档案切换：选择档案，新建、重命名、删除（默认档案不能删除）
+function ProfileSwitcher({ profiles, activeProfileId, onSwitch, onAdd, onRename, onDelete }: ProfileSwitcherProps) {
+  const [mode, setMode] = useState<Mode>('idle')
+  const [name, setName] = useState('')
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId)
+  const trimmed = name.trim()
+  const duplicate = profiles.some(profile =>
+    profile.name === trimmed && !(mode === 'rename' && profile.id === activeProfileId)
+  )
+
+  const startEditing = (next: Mode) => {
+    setMode(next)
+    setName(next === 'rename' ? activeProfile?.name ?? '' : '')
+  }
+
+  const handleConfirm = () => {
+    if (mode === 'delete') {
+      onDelete(activeProfileId)
+    } else {
+      if (!trimmed || duplicate) return
+      if (mode === 'add') onAdd(trimmed)
+      if (mode === 'rename') onRename(activeProfileId, trimmed)
+    }
+    setMode('idle')
+  }
+
+  if (mode !== 'idle') {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        {mode === 'delete' ? (
+          <span className="text-sm">删除“{activeProfile?.name}”及其全部记录？</span>
+        ) : (
+          <input
+            autoFocus
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleConfirm()}
+            placeholder={mode === 'add' ? '新档案名称' : '档案名称'}
+            className="px-3 py-2 rounded-lg bg-white/10 text-primary-foreground placeholder:text-primary-foreground/60 border border-white/20 focus:outline-none"
+            aria-label="档案名称"
+          />
+        )}
+        <button
+          onClick={handleConfirm}
+          className={`${HEADER_BUTTON_CLASS} disabled:opacity-50`}
+          disabled={mode !== 'delete' && (!trimmed || duplicate)}
+          aria-label="确定"
+        >
+          <Check className="w-5 h-5" />
+        </button>
+        <button onClick={() => setMode('idle')} className={HEADER_BUTTON_CLASS} aria-label="取消">
+          <X className="w-5 h-5" />
+        </button>
+        {mode !== 'delete' && duplicate && <span className="text-sm opacity-90">名称已存在</span>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Users className="w-5 h-5" />
+      <select
+        value={activeProfileId}
+        onChange={e => onSwitch(e.target.value)}
+        className="px-3 py-2 rounded-lg bg-white/10 text-primary-foreground border border-white/20 focus:outline-none"
+        aria-label="切换档案"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id} className="text-foreground">
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      <button onClick={() => startEditing('add')} className={HEADER_BUTTON_CLASS} aria-label="新建档案">
+        <UserPlus className="w-5 h-5" />
+      </button>
+      <button onClick={() => startEditing('rename')} className={HEADER_BUTTON_CLASS} aria-label="重命名档案">
+        <Pencil className="w-5 h-5" />
+      </button>
+      {activeProfileId !== DEFAULT_PROFILE_ID && (
+        <button onClick={() => startEditing('delete')} className={HEADER_BUTTON_CLASS} aria-label="删除档案">
+          <Trash2 className="w-5 h-5" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default ProfileSwitcher
@@ -0,0 +1,105 @@
+import { Plus, X } from 'lucide-react'
+import { PunchTime, punchesToSegment, findPunchIndex } from '../utils/ocrUtils'
+import { WorkSegment, formatSegment } from '../utils/timeUtils'
+
+interface PunchPairingEditorProps {
+  punches: PunchTime[]
+  segments: WorkSegment[]
+  onChange: (segments: WorkSegment[]) => void
+}
+
+// 低于此置信度的打卡在列表中标出，提示用户核对
+const LOW_CONFIDENCE = 0.6
+
+function punchLabel(punch: PunchTime): string {
+  const time = punch.nextDay ? `次日 ${punch.time}` : punch.time
+  const label = punch.label ? `${punch.label} ${time}` : time
+  return punch.confidence < LOW_CONFIDENCE ? `${label}（待确认）` : label
+}
+
+// OCR 识别结果的打卡配对：为每个工作时段选择上班、下班打卡
+function PunchPairingEditor({ punches, segments, onChange }: PunchPairingEditorProps) {
+  const pairs = segments.map(segment => [
+    findPunchIndex(punches, segment.startTime, segment.startsNextDay),
+    findPunchIndex(punches, segment.endTime, segment.endsNextDay)
+  ])
+
+  // 只选了一端时保留该时段，另一端留空显示为未配对，补全前不能保存
+  const updatePair = (index: number, position: 0 | 1, punchIndex: number) => {
+    onChange(segments.map((segment, i) => {
+      if (i !== index) return segment
+      const [start, end] = position === 0 ? [punchIndex, pairs[i][1]] : [pairs[i][0], punchIndex]
+      if (start >= 0 && end >= 0) return punchesToSegment(punches[start], punches[end])
+      const punch = punchIndex >= 0 ? punches[punchIndex] : undefined
+      return position === 0
+        ? { ...segment, startTime: punch?.time ?? '', startsNextDay: punch?.nextDay }
+        : { ...segment, endTime: punch?.time ?? '', endsNextDay: punch?.nextDay }
+    }))
+  }
+
+  const addPair = () => {
+    // 默认取尚未使用的前两次打卡
+    const used = new Set(pairs.flat())
+    const unused = punches.map((_, i) => i).filter(i => !used.has(i))
+    if (unused.length < 2) return
+    onChange([...segments, punchesToSegment(punches[unused[0]], punches[unused[1]])])
+  }
+
+  const removePair = (index: number) => {
+    onChange(segments.filter((_, i) => i !== index))
+  }
+
+  if (punches.length < 2) return null
+
+  return (
+    <div className="text-sm space-y-2">
+      <p className="text-muted-foreground">
+        识别到打卡：{punches.map(punch => `${punchLabel(punch)} ${Math.round(punch.confidence * 100)}%`).join('、')}
+      </p>
+      {pairs.map(([start, end], index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="text-muted-foreground whitespace-nowrap">时段{index + 1}</span>
+          <select
+            value={start}
+            onChange={e => updatePair(index, 0, Number(e.target.value))}
+            className={`input-field py-1 px-2 ${start < 0 ? 'text-danger' : ''}`}
+          >
+            <option value={-1}>未配对</option>
+            {punches.map((punch, i) => (
+              <option key={i} value={i}>{punchLabel(punch)}</option>
+            ))}
+          </select>
+          <span className="text-muted-foreground">-</span>
+          <select
+            value={end}
+            onChange={e => updatePair(index, 1, Number(e.target.value))}
+            className={`input-field py-1 px-2 ${end < 0 ? 'text-danger' : ''}`}
+          >
+            <option value={-1}>未配对</option>
+            {punches.map((punch, i) => (
+              <option key={i} value={i}>{punchLabel(punch)}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => removePair(index)}
+            className="p-1 rounded-md text-muted-foreground hover:text-danger hover:bg-danger/10"
+            aria-label={`删除时段 ${formatSegment(segments[index])}`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      {pairs.some(pair => pair.includes(-1)) && (
+        <p className="text-danger">有时段未选择打卡，配对完成后才能保存</p>
+      )}
+      {punches.length - pairs.length * 2 >= 2 && (
+        <button onClick={addPair} className="text-primary flex items-center gap-1 hover:underline">
+          <Plus className="w-4 h-4" />
+          添加时段
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default PunchPairingEditor
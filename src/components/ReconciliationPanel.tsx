@@ -0,0 +1,121 @@
+import { Scale } from 'lucide-react'
+import { formatDate, formatMinutesToHours } from '../utils/timeUtils'
+import { ReconcileResult, RECONCILE_TOLERANCE_MINUTES } from '../utils/reconcileUtils'
+
+interface ReconciliationPanelProps {
+  result: ReconcileResult
+  statsMonthLabel: string | null // 统计截图的月份与当前查看月份不同时显示
+  onSelectDay: (date: string) => void
+}
+
+function formatDiff(minutes: number): string {
+  if (minutes === 0) return '一致'
+  return `${minutes > 0 ? '本地多' : '本地少'} ${formatMinutesToHours(Math.abs(minutes))}`
+}
+
+function DateList({ title, dates, onSelectDay }: { title: string; dates: string[]; onSelectDay: (date: string) => void }) {
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground mb-2">{title}（{dates.length} 天）</p>
+      {dates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">无</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {dates.map(date => (
+            <button key={date} onClick={() => onSelectDay(date)} className="badge-warning hover:opacity-80">
+              {formatDate(date)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// 钉钉考勤与本地记录对账：汇总对比、单边存在的日期、工时不一致的日期
+function ReconciliationPanel({ result, statsMonthLabel, onSelectDay }: ReconciliationPanelProps) {
+  const { dingTalk, local } = result
+
+  return (
+    <section className="card p-6 animate-slide-up">
+      <div className="flex items-center gap-2 mb-4">
+        <Scale className="w-5 h-5 text-primary" />
+        <h2 className="font-semibold text-foreground">钉钉对账</h2>
+      </div>
+
+      {statsMonthLabel && (
+        <p className="text-sm text-warning mb-4">统计截图是 {statsMonthLabel} 的数据，与当前查看的月份不同。</p>
+      )}
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="py-2 pr-4 font-normal"></th>
+              <th className="py-2 pr-4 font-normal">钉钉</th>
+              <th className="py-2 pr-4 font-normal">本地记录</th>
+              <th className="py-2 font-normal">差异</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-border/50">
+              <td className="py-2 pr-4 text-muted-foreground">出勤天数</td>
+              <td className="py-2 pr-4 text-foreground">{dingTalk ? `${dingTalk.attendanceDays} 天` : '—'}</td>
+              <td className="py-2 pr-4 text-foreground">{local.attendanceDays} 天</td>
+              <td className="py-2 text-foreground">
+                {dingTalk
+                  ? local.attendanceDays === dingTalk.attendanceDays
+                    ? '一致'
+                    : `${local.attendanceDays > dingTalk.attendanceDays ? '本地多' : '本地少'} ${Math.abs(local.attendanceDays - dingTalk.attendanceDays)} 天`
+                  : '—'}
+              </td>
+            </tr>
+            <tr>
+              <td className="py-2 pr-4 text-muted-foreground">总工时</td>
+              <td className="py-2 pr-4 text-foreground">{dingTalk ? formatMinutesToHours(dingTalk.totalMinutes) : '—'}</td>
+              <td className="py-2 pr-4 text-foreground">{formatMinutesToHours(local.totalMinutes)}</td>
+              <td className="py-2 text-foreground">
+                {dingTalk ? formatDiff(local.totalMinutes - dingTalk.totalMinutes) : '—'}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {result.hasDailyData ? (
+        <div className="space-y-4">
+          <DateList title="钉钉有打卡、本地没有记录" dates={result.onlyDingTalk} onSelectDay={onSelectDay} />
+          <DateList title="本地有记录、钉钉没有打卡" dates={result.onlyLocal} onSelectDay={onSelectDay} />
+          <div>
+            <p className="text-sm text-muted-foreground mb-2">
+              工时不一致（相差超过 {RECONCILE_TOLERANCE_MINUTES} 分钟，{result.mismatched.length} 天）
+            </p>
+            {result.mismatched.length === 0 ? (
+              <p className="text-sm text-muted-foreground">无</p>
+            ) : (
+              <ul className="text-sm divide-y divide-border">
+                {result.mismatched.map(item => (
+                  <li key={item.date} className="py-2 flex items-center justify-between gap-3">
+                    <button onClick={() => onSelectDay(item.date)} className="text-foreground hover:text-primary">
+                      {formatDate(item.date)}
+                    </button>
+                    <span className="text-muted-foreground">
+                      钉钉 {formatMinutesToHours(item.dingTalkMinutes)} / 本地 {formatMinutesToHours(item.localMinutes)}
+                    </span>
+                    <span className="text-warning whitespace-nowrap">
+                      {formatDiff(item.localMinutes - item.dingTalkMinutes)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">识别钉钉月度考勤截图后，可逐日对比缺失的日期和工时差异。</p>
+      )}
+    </section>
+  )
+}
+
+export default ReconciliationPanel
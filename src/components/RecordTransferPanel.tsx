@@ -0,0 +1,146 @@
+import { useState, type ChangeEvent } from 'react'
+import { format, startOfMonth, endOfMonth } from 'date-fns'
+import { FileSpreadsheet, Download, Upload } from 'lucide-react'
+import { TimeRecord } from '../utils/timeUtils'
+import { WorkSettings } from '../utils/settingsUtils'
+import { ConflictStrategy, ConflictSummary } from '../utils/conflictUtils'
+import {
+  ImportError,
+  filterRecordsInRange,
+  recordsToCsv,
+  recordsToXlsx,
+  parseCsv,
+  parseRecordRows,
+  downloadBlob
+} from '../utils/exportUtils'
+
+interface RecordTransferPanelProps {
+  records: TimeRecord[]
+  currentDate: Date
+  settings: WorkSettings
+  onImport: (records: TimeRecord[], strategy: ConflictStrategy) => ConflictSummary
+}
+
+// 打卡记录导出（CSV / XLSX）与导入（仅 CSV）
+function RecordTransferPanel({ records, currentDate, settings, onImport }: RecordTransferPanelProps) {
+  const [from, setFrom] = useState(format(startOfMonth(currentDate), 'yyyy-MM-dd'))
+  const [to, setTo] = useState(format(endOfMonth(currentDate), 'yyyy-MM-dd'))
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip')
+  const [errors, setErrors] = useState<ImportError[]>([])
+  const [message, setMessage] = useState('')
+
+  const rangeRecords = filterRecordsInRange(records, from, to)
+
+  const handleExport = async (type: 'csv' | 'xlsx') => {
+    const fileName = `工时记录_${from}_${to}.${type}`
+    try {
+      if (type === 'csv') {
+        downloadBlob(new Blob([recordsToCsv(rangeRecords, settings)], { type: 'text/csv;charset=utf-8' }), fileName)
+      } else {
+        downloadBlob(await recordsToXlsx(rangeRecords, settings), fileName)
+      }
+    } catch (error) {
+      setErrors([])
+      setMessage(`导出 ${type.toUpperCase()} 失败：${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    // 只导入 CSV：xlsx 库解析不受信任的文件存在安全隐患，Excel 文件请先另存为 CSV
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      setErrors([])
+      setMessage('只支持导入 CSV 文件，Excel 文件请先另存为 CSV')
+      return
+    }
+
+    try {
+      const rows = parseCsv(await file.text())
+      const result = parseRecordRows(rows, settings)
+      const summary = onImport(result.records, strategy)
+      setErrors(result.errors)
+      setMessage(`新增 ${summary.added} 条，合并 ${summary.merged} 条，替换 ${summary.replaced} 条，跳过 ${summary.skipped} 条，错误 ${result.errors.length} 行`)
+    } catch {
+      setErrors([])
+      setMessage('无法读取文件，请确认是 CSV 格式')
+    }
+  }
+
+  return (
+    <section className="card p-6 animate-slide-up">
+      <div className="flex items-center gap-2 mb-4">
+        <FileSpreadsheet className="w-5 h-5 text-primary" />
+        <h2 className="font-semibold text-foreground">导出 / 导入记录</h2>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-3 mb-6">
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">开始日期</label>
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} className="input-field" />
+        </div>
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">结束日期</label>
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} className="input-field" />
+        </div>
+        <button
+          onClick={() => handleExport('csv')}
+          className="btn-secondary flex items-center justify-center gap-2 disabled:opacity-60"
+          disabled={rangeRecords.length === 0}
+        >
+          <Download className="w-4 h-4" />
+          导出 CSV
+        </button>
+        <button
+          onClick={() => handleExport('xlsx')}
+          className="btn-secondary flex items-center justify-center gap-2 disabled:opacity-60"
+          disabled={rangeRecords.length === 0}
+        >
+          <Download className="w-4 h-4" />
+          导出 Excel
+        </button>
+        <span className="text-sm text-muted-foreground">共 {rangeRecords.length} 条</span>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-muted-foreground whitespace-nowrap">与已有记录冲突时</label>
+          <select
+            value={strategy}
+            onChange={e => setStrategy(e.target.value as ConflictStrategy)}
+            className="input-field py-2"
+          >
+            <option value="skip">跳过</option>
+            <option value="merge">合并时段</option>
+            <option value="replace">替换</option>
+            <option value="keepBoth">都保留</option>
+          </select>
+        </div>
+        <input
+          id="records-upload"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="sr-only"
+        />
+        <label htmlFor="records-upload" className="btn-secondary flex items-center justify-center gap-2">
+          <Upload className="w-4 h-4" />
+          导入 CSV
+        </label>
+      </div>
+
+      {message && <p className="text-sm text-muted-foreground mt-3">{message}</p>}
+      {errors.length > 0 && (
+        <ul className="mt-2 text-sm text-danger space-y-1 max-h-40 overflow-y-auto">
+          {errors.map(error => (
+            <li key={`${error.line}-${error.message}`}>第 {error.line} 行：{error.message}</li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+export default RecordTransferPanel
@@ -0,0 +1,176 @@
+import { useMemo, useState } from 'react'
+import { parse } from 'date-fns'
+import { BarChart3, ArrowUp, ArrowDown } from 'lucide-react'
+import { TimeRecord, OvertimeCategory, formatMinutesToHours } from '../utils/timeUtils'
+import { WorkSettings } from '../utils/settingsUtils'
+import {
+  ReportPeriod,
+  REPORT_PERIOD_LABELS,
+  buildReportSeries,
+  comparePeriods
+} from '../utils/reportUtils'
+
+interface ReportPanelProps {
+  currentDate: Date
+  records: TimeRecord[]
+  settings: WorkSettings
+}
+
+// 图表显示的周期数
+const SERIES_LENGTH: Record<ReportPeriod, number> = {
+  week: 12,
+  month: 12,
+  quarter: 8,
+  year: 5
+}
+
+const CATEGORIES: { key: OvertimeCategory; label: string; className: string }[] = [
+  { key: 'weekday', label: '工作日加班', className: 'bg-primary' },
+  { key: 'restDay', label: '休息日加班', className: 'bg-success' },
+  { key: 'statutoryHoliday', label: '法定节假日加班', className: 'bg-warning' }
+]
+
+// 图表坐标轴下方的简短标签
+function getShortLabel(period: ReportPeriod, key: string): string {
+  if (period === 'week') return `W${Number(key.slice(6))}`
+  if (period === 'month') return `${Number(key.slice(5))}月`
+  if (period === 'quarter') return key.slice(5)
+  return key
+}
+
+function Diff({ minutes }: { minutes: number }) {
+  if (minutes === 0) return <span className="text-muted-foreground">持平</span>
+  const Icon = minutes > 0 ? ArrowUp : ArrowDown
+  return (
+    <span className={`inline-flex items-center gap-0.5 ${minutes > 0 ? 'text-primary' : 'text-muted-foreground'}`}>
+      <Icon className="w-3 h-3" />
+      {formatMinutesToHours(Math.abs(minutes))}
+    </span>
+  )
+}
+
+// 工时报表：按周、月、季度、年汇总，柱状图显示各周期加班构成，并与上一周期对比
+function ReportPanel({ currentDate, records, settings }: ReportPanelProps) {
+  const [period, setPeriod] = useState<ReportPeriod>('month')
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+
+  const series = useMemo(
+    () => buildReportSeries(period, currentDate, records, SERIES_LENGTH[period], settings),
+    [period, currentDate, records, settings]
+  )
+  const selected = series.find(report => report.key === selectedKey) ?? series[series.length - 1]
+  const comparison = useMemo(
+    () => comparePeriods(period, parse(selected.start, 'yyyy-MM-dd', new Date()), records, settings),
+    [period, selected.start, records, settings]
+  )
+  const maxOvertime = Math.max(1, ...series.map(report => report.overtime.total))
+
+  const handlePeriodChange = (next: ReportPeriod) => {
+    setPeriod(next)
+    setSelectedKey(null)
+  }
+
+  return (
+    <section className="card p-6 animate-slide-up">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-primary" />
+          <h2 className="font-semibold text-foreground">工时报表</h2>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(REPORT_PERIOD_LABELS) as ReportPeriod[]).map(item => (
+            <button
+              key={item}
+              onClick={() => handlePeriodChange(item)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                item === period ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              按{REPORT_PERIOD_LABELS[item]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* 柱状图：每个周期的加班构成 */}
+      <div className="flex items-end gap-1 h-40 mb-2">
+        {series.map(report => (
+          <button
+            key={report.key}
+            onClick={() => setSelectedKey(report.key)}
+            title={`${report.label}：加班 ${formatMinutesToHours(report.overtime.total)}`}
+            className={`flex-1 h-full flex flex-col justify-end rounded-t-md transition-colors ${
+              report.key === selected.key ? 'bg-muted' : 'hover:bg-muted/50'
+            }`}
+          >
+            {[...CATEGORIES].reverse().map(category => (
+              report.overtime[category.key] > 0 && (
+                <div
+                  key={category.key}
+                  className={`w-full ${category.className}`}
+                  style={{ height: `${(report.overtime[category.key] / maxOvertime) * 100}%` }}
+                />
+              )
+            ))}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1 mb-3">
+        {series.map(report => (
+          <span
+            key={report.key}
+            className={`flex-1 text-center text-xs ${report.key === selected.key ? 'text-foreground font-medium' : 'text-muted-foreground'}`}
+          >
+            {getShortLabel(period, report.key)}
+          </span>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground mb-6">
+        {CATEGORIES.map(category => (
+          <span key={category.key} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${category.className}`} />
+            {category.label}
+          </span>
+        ))}
+      </div>
+
+      {/* 所选周期明细 */}
+      <p className="text-sm text-muted-foreground mb-3">
+        {selected.label}（{selected.start} 至 {selected.end}，{selected.recordCount} 条记录）
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div>
+          <p className="text-xs text-muted-foreground">总工时</p>
+          <p className="text-lg font-semibold text-foreground">{formatMinutesToHours(selected.workedMinutes)}</p>
+          <p className="text-xs">较上期 <Diff minutes={comparison.workedDiff} /></p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">总加班</p>
+          <p className="text-lg font-semibold text-primary">{formatMinutesToHours(selected.overtime.total)}</p>
+          <p className="text-xs">较上期 <Diff minutes={comparison.overtimeDiff} /></p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">折算加班</p>
+          <p className="text-lg font-semibold text-foreground">{formatMinutesToHours(selected.weightedOvertime)}</p>
+          <p className="text-xs">较上期 <Diff minutes={comparison.weightedOvertimeDiff} /></p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">工作日日均工时（{selected.workdayCount} 天）</p>
+          <p className="text-lg font-semibold text-foreground">{formatMinutesToHours(selected.averageWorkdayMinutes)}</p>
+          <p className="text-xs">较上期 <Diff minutes={comparison.averageWorkdayDiff} /></p>
+        </div>
+        {CATEGORIES.map(category => (
+          <div key={category.key}>
+            <p className="text-xs text-muted-foreground">{category.label}</p>
+            <p className="text-foreground">{formatMinutesToHours(selected.overtime[category.key])}</p>
+            <p className="text-xs text-muted-foreground">
+              上期 {formatMinutesToHours(comparison.previous.overtime[category.key])}
+            </p>
+          </div>
+        ))}
+      </div>
+    </section>
+  )
+}
+
+export default ReportPanel
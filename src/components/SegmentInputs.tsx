@@ -0,0 +1,74 @@
+import { addHours, format, isValid, parse } from 'date-fns'
+import { Plus, X } from 'lucide-react'
+import { WorkSegment } from '../utils/timeUtils'
+
+interface SegmentInputsProps {
+  segments: WorkSegment[]
+  onChange: (segments: WorkSegment[]) => void
+}
+
+// 工作时段输入：每行一组上下班时间，可增删时段
+function SegmentInputs({ segments, onChange }: SegmentInputsProps) {
+  // 修改时间后去掉旧的跨零点标记，由 normalizeSegments 重新推断
+  const updateSegment = (index: number, updates: Partial<WorkSegment>) => {
+    onChange(segments.map((segment, i) => (
+      i === index ? { startTime: segment.startTime, endTime: segment.endTime, ...updates } : segment
+    )))
+  }
+
+  // 新时段默认接在上一段之后、时长 1 小时，避免出现零时长的时段
+  const addSegment = () => {
+    const lastEnd = parse(segments[segments.length - 1]?.endTime ?? '', 'HH:mm', new Date())
+    if (!isValid(lastEnd)) {
+      onChange([...segments, { startTime: '09:00', endTime: '18:00' }])
+      return
+    }
+    onChange([...segments, { startTime: format(lastEnd, 'HH:mm'), endTime: format(addHours(lastEnd, 1), 'HH:mm') }])
+  }
+
+  const removeSegment = (index: number) => {
+    onChange(segments.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-2">
+      {segments.map((segment, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="time"
+            value={segment.startTime}
+            onChange={e => updateSegment(index, { startTime: e.target.value })}
+            className="input-field"
+            aria-label={`第${index + 1}段上班时间`}
+          />
+          <span className="text-muted-foreground">-</span>
+          <input
+            type="time"
+            value={segment.endTime}
+            onChange={e => updateSegment(index, { endTime: e.target.value })}
+            className="input-field"
+            aria-label={`第${index + 1}段下班时间`}
+          />
+          {segments.length > 1 && (
+            <button
+              onClick={() => removeSegment(index)}
+              className="p-2 rounded-md text-muted-foreground hover:text-danger hover:bg-danger/10"
+              aria-label="删除时段"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={addSegment}
+        className="text-sm text-primary flex items-center gap-1 hover:underline"
+      >
+        <Plus className="w-4 h-4" />
+        添加时段
+      </button>
+    </div>
+  )
+}
+
+export default SegmentInputs
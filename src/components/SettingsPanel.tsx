@@ -0,0 +1,310 @@
+import { useState } from 'react'
+import { Settings, RotateCcw } from 'lucide-react'
+import { WorkSettings, DEFAULT_WORK_SETTINGS, validateSettings } from '../utils/settingsUtils'
+import { LeaveType, LEAVE_TYPE_LABELS } from '../utils/leaveUtils'
+import { RoundingMode, ROUNDING_MODE_LABELS } from '../utils/roundingUtils'
+import { OvertimeCategory, OVERTIME_CATEGORY_LABELS } from '../utils/timeUtils'
+
+interface SettingsPanelProps {
+  settings: WorkSettings
+  onSave: (settings: WorkSettings) => void
+  onClose: () => void
+}
+
+// 工时规则设置面板
+function SettingsPanel({ settings, onSave, onClose }: SettingsPanelProps) {
+  const [draft, setDraft] = useState<WorkSettings>(settings)
+  const errors = validateSettings(draft)
+
+  const updateDraft = (updates: Partial<WorkSettings>) => {
+    setDraft(prev => ({ ...prev, ...updates }))
+  }
+
+  const handleSave = () => {
+    if (errors.length > 0) return
+    onSave(draft)
+  }
+
+  return (
+    <section className="card p-6 animate-slide-up">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Settings className="w-5 h-5 text-primary" />
+          <h2 className="font-semibold text-foreground">工时规则设置</h2>
+        </div>
+        <button
+          onClick={() => setDraft(DEFAULT_WORK_SETTINGS)}
+          className="btn-secondary flex items-center gap-2 text-sm"
+        >
+          <RotateCcw className="w-4 h-4" />
+          恢复默认
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">午休时段</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={draft.lunchStart}
+              onChange={e => updateDraft({ lunchStart: e.target.value })}
+              className="input-field"
+            />
+            <span className="text-muted-foreground">-</span>
+            <input
+              type="time"
+              value={draft.lunchEnd}
+              onChange={e => updateDraft({ lunchEnd: e.target.value })}
+              className="input-field"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">标准日工时（小时）</label>
+          <input
+            type="number"
+            step="0.5"
+            min="0"
+            value={draft.standardDailyHours}
+            onChange={e => updateDraft({ standardDailyHours: parseFloat(e.target.value || '0') })}
+            className="input-field"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">加班目标</label>
+          <div className="flex items-center gap-2">
+            <select
+              value={draft.overtimeTargetMode}
+              onChange={e => updateDraft({ overtimeTargetMode: e.target.value as WorkSettings['overtimeTargetMode'] })}
+              className="input-field"
+            >
+              <option value="perWorkday">每个工作日</option>
+              <option value="monthly">每月总计</option>
+            </select>
+            {draft.overtimeTargetMode === 'perWorkday' ? (
+              <input
+                type="number"
+                step="0.5"
+                min="0"
+                value={draft.overtimeHoursPerWorkday}
+                onChange={e => updateDraft({ overtimeHoursPerWorkday: parseFloat(e.target.value || '0') })}
+                className="input-field"
+              />
+            ) : (
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={draft.overtimeHoursPerMonth}
+                onChange={e => updateDraft({ overtimeHoursPerMonth: parseFloat(e.target.value || '0') })}
+                className="input-field"
+              />
+            )}
+            <span className="text-sm text-muted-foreground whitespace-nowrap">小时</span>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">工时取整（分钟）</label>
+          <div className="flex items-center gap-2">
+            <select
+              value={draft.roundingMode}
+              onChange={e => updateDraft({ roundingMode: e.target.value as RoundingMode })}
+              className="input-field"
+            >
+              {(Object.keys(ROUNDING_MODE_LABELS) as RoundingMode[]).map(mode => (
+                <option key={mode} value={mode}>{ROUNDING_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="1"
+              min="1"
+              max="60"
+              value={draft.roundingMinutes}
+              onChange={e => updateDraft({ roundingMinutes: parseInt(e.target.value || '1') })}
+              className="input-field"
+              aria-label="取整粒度"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">
+            {draft.scheduleMode === 'fixed' ? '上下班时间' : '核心时段（必须在岗）'}
+          </label>
+          <div className="flex items-center gap-2">
+            <select
+              value={draft.scheduleMode}
+              onChange={e => updateDraft({ scheduleMode: e.target.value as WorkSettings['scheduleMode'] })}
+              className="input-field"
+              aria-label="班制"
+            >
+              <option value="fixed">固定班</option>
+              <option value="flexible">弹性班</option>
+            </select>
+            <input
+              type="time"
+              value={draft.scheduleMode === 'fixed' ? draft.workStartTime : draft.coreStartTime}
+              onChange={e => updateDraft(draft.scheduleMode === 'fixed'
+                ? { workStartTime: e.target.value }
+                : { coreStartTime: e.target.value })}
+              className="input-field"
+              aria-label={draft.scheduleMode === 'fixed' ? '上班时间' : '核心时段开始'}
+            />
+            <span className="text-muted-foreground">-</span>
+            <input
+              type="time"
+              value={draft.scheduleMode === 'fixed' ? draft.workEndTime : draft.coreEndTime}
+              onChange={e => updateDraft(draft.scheduleMode === 'fixed'
+                ? { workEndTime: e.target.value }
+                : { coreEndTime: e.target.value })}
+              className="input-field"
+              aria-label={draft.scheduleMode === 'fixed' ? '下班时间' : '核心时段结束'}
+            />
+          </div>
+          {draft.scheduleMode === 'flexible' && (
+            <p className="text-xs text-muted-foreground mt-1">弹性班不满标准日工时也算早退</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">迟到宽限</label>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground whitespace-nowrap">
+              {draft.scheduleMode === 'fixed' ? '上班时间' : '核心时段开始'}后
+            </span>
+            <input
+              type="number"
+              step="1"
+              min="0"
+              max="120"
+              value={draft.lateGraceMinutes}
+              onChange={e => updateDraft({ lateGraceMinutes: parseInt(e.target.value || '0') })}
+              className="input-field"
+              aria-label="宽限分钟"
+            />
+            <span className="text-sm text-muted-foreground whitespace-nowrap">分钟内不算迟到</span>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">加班起算门槛（分钟）</label>
+          <input
+            type="number"
+            step="1"
+            min="0"
+            max="240"
+            value={draft.overtimeThresholdMinutes}
+            onChange={e => updateDraft({ overtimeThresholdMinutes: parseInt(e.target.value || '0') })}
+            className="input-field"
+          />
+          <p className="text-xs text-muted-foreground mt-1">工作日满标准工时后再过这么久才开始计加班，如 18:00 下班、18:30 起算填 30</p>
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">加班计算块（分钟）</label>
+          <input
+            type="number"
+            step="1"
+            min="1"
+            max="240"
+            value={draft.overtimeBlockMinutes}
+            onChange={e => updateDraft({ overtimeBlockMinutes: parseInt(e.target.value || '1') })}
+            className="input-field"
+          />
+          <p className="text-xs text-muted-foreground mt-1">加班按整块计入，不足一块的部分不计；1 表示按分钟计</p>
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">加班折算倍数</label>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(OVERTIME_CATEGORY_LABELS) as OvertimeCategory[]).map(category => (
+              <div key={category}>
+                <span className="block text-xs text-muted-foreground mb-1">{OVERTIME_CATEGORY_LABELS[category]}</span>
+                <input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={draft.overtimeMultipliers[category]}
+                  onChange={e => updateDraft({
+                    overtimeMultipliers: { ...draft.overtimeMultipliers, [category]: parseFloat(e.target.value || '0') }
+                  })}
+                  className="input-field"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">时薪（元）</label>
+          <input
+            type="number"
+            step="1"
+            min="0"
+            value={draft.hourlyWage}
+            onChange={e => updateDraft({ hourlyWage: parseFloat(e.target.value || '0') })}
+            className="input-field"
+          />
+          <p className="text-xs text-muted-foreground mt-1">填写后按折算倍数估算加班费；0 表示不估算</p>
+        </div>
+
+        <div>
+          <label className="block text-sm text-muted-foreground mb-2">计时截止时间</label>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground whitespace-nowrap">次日</span>
+            <input
+              type="time"
+              value={draft.sessionCutoffTime}
+              onChange={e => updateDraft({ sessionCutoffTime: e.target.value })}
+              className="input-field"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">上班计时到这个时间还没结束，视为忘记下班，提示修正下班时间</p>
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-sm text-muted-foreground mb-2">请假当天不计应出勤、不需加班</label>
+          <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
+            {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map(type => (
+              <label key={type} className="flex items-center gap-1 text-foreground">
+                <input
+                  type="checkbox"
+                  checked={draft.leaveExemptTypes.includes(type)}
+                  onChange={e => updateDraft({
+                    leaveExemptTypes: e.target.checked
+                      ? [...draft.leaveExemptTypes, type]
+                      : draft.leaveExemptTypes.filter(item => item !== type)
+                  })}
+                />
+                {LEAVE_TYPE_LABELS[type]}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <p className="text-sm text-danger mt-4">{errors.join('；')}</p>
+      )}
+
+      <div className="flex justify-end gap-2 mt-6">
+        <button onClick={onClose} className="btn-secondary">取消</button>
+        <button
+          onClick={handleSave}
+          className="btn-primary disabled:opacity-60 disabled:cursor-not-allowed"
+          disabled={errors.length > 0}
+        >
+          保存设置
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground mt-3">保存后将按新规则重新计算所有记录的工时与加班时长。</p>
+    </section>
+  )
+}
+
+export default SettingsPanel
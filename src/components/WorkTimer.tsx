@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Play, Square, Timer, X, Check } from 'lucide-react'
+import { RecordFields, createRecord, formatMinutesToHours } from '../utils/timeUtils'
+import { WorkSettings } from '../utils/settingsUtils'
+import {
+  OpenSession,
+  getSessionCutoff,
+  getSessionFields,
+  formatElapsed
+} from '../utils/sessionUtils'
+
+interface WorkTimerProps {
+  session: OpenSession | null
+  settings: WorkSettings
+  onStart: () => void
+  onStop: (fields: RecordFields) => void
+  onDiscard: () => void
+}
+
+const HEADER_BUTTON = 'px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm transition-colors flex items-center gap-1'
+
+// 上下班计时：显示已工作时长和实时加班；超过计时截止时间仍未结束时，要求填写实际下班时间
+function WorkTimer({ session, settings, onStart, onStop, onDiscard }: WorkTimerProps) {
+  const [now, setNow] = useState(() => new Date())
+  const [fixedEnd, setFixedEnd] = useState('')
+  // 放弃计时需要再确认一次，避免误点丢失整段计时
+  const [confirmingDiscard, setConfirmingDiscard] = useState(false)
+
+  useEffect(() => {
+    setFixedEnd('')
+    setConfirmingDiscard(false)
+    if (!session) return
+    setNow(new Date())
+    const timer = window.setInterval(() => setNow(new Date()), 1000)
+    return () => window.clearInterval(timer)
+  }, [session])
+
+  if (!session) {
+    return (
+      <button onClick={onStart} className={HEADER_BUTTON}>
+        <Play className="w-4 h-4" />
+        开始上班
+      </button>
+    )
+  }
+
+  const start = new Date(session.startedAt)
+  const cutoff = getSessionCutoff(session, settings)
+  const discardControl = confirmingDiscard ? (
+    <div className="flex items-center gap-2">
+      <span className="text-sm">放弃 {format(start, 'HH:mm')} 开始的计时？</span>
+      <button onClick={onDiscard} className={HEADER_BUTTON} aria-label="确定放弃">
+        <Check className="w-4 h-4" />
+      </button>
+      <button onClick={() => setConfirmingDiscard(false)} className={HEADER_BUTTON} aria-label="取消">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  ) : (
+    <button onClick={() => setConfirmingDiscard(true)} className={HEADER_BUTTON} aria-label="放弃计时">
+      <X className="w-4 h-4" />
+      {now.getTime() > cutoff.getTime() && '放弃计时'}
+    </button>
+  )
+
+  if (now.getTime() > cutoff.getTime()) {
+    const end = fixedEnd ? new Date(fixedEnd) : null
+    const endError = end && (end.getTime() <= start.getTime() || end.getTime() > cutoff.getTime())
+      ? `下班时间需在 ${format(start, 'M月d日 HH:mm')} 至 ${format(cutoff, 'M月d日 HH:mm')} 之间`
+      : ''
+    return (
+      <div className="w-full rounded-lg bg-white/10 p-3 text-sm">
+        <p className="mb-2">
+          {format(start, 'M月d日 HH:mm')} 开始的计时超过截止时间仍未结束，可能忘记下班，请填写实际下班时间。
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="datetime-local"
+            value={fixedEnd}
+            min={format(start, "yyyy-MM-dd'T'HH:mm")}
+            max={format(cutoff, "yyyy-MM-dd'T'HH:mm")}
+            onChange={e => setFixedEnd(e.target.value)}
+            className="px-3 py-2 rounded-lg bg-white/10 text-primary-foreground border border-white/20 focus:outline-none"
+            aria-label="实际下班时间"
+          />
+          <button
+            onClick={() => end && onStop(getSessionFields(session, end))}
+            disabled={!end || Boolean(endError)}
+            className={`${HEADER_BUTTON} disabled:opacity-60 disabled:cursor-not-allowed`}
+          >
+            <Square className="w-4 h-4" />
+            按此时间下班
+          </button>
+          {discardControl}
+        </div>
+        {endError && <p className="mt-2">{endError}</p>}
+      </div>
+    )
+  }
+
+  const elapsed = now.getTime() - start.getTime()
+  const liveRecord = createRecord(getSessionFields(session, now), 'manual', settings)
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="px-3 py-2 rounded-lg bg-white/10 text-sm flex items-center gap-2">
+        <Timer className="w-4 h-4" />
+        {format(start, 'HH:mm')} 上班 · 已工作 <span className="font-semibold tabular-nums">{formatElapsed(elapsed)}</span>
+        · 加班 {formatMinutesToHours(liveRecord.overtimeMinutes)}
+      </span>
+      <button
+        onClick={() => onStop(getSessionFields(session, new Date()))}
+        disabled={elapsed < 60 * 1000}
+        className={`${HEADER_BUTTON} disabled:opacity-60 disabled:cursor-not-allowed`}
+        title={elapsed < 60 * 1000 ? '计时不足 1 分钟' : undefined}
+      >
+        <Square className="w-4 h-4" />
+        下班
+      </button>
+      {discardControl}
+    </div>
+  )
+}
+
+export default WorkTimer
@@ -0,0 +1,148 @@
+import { eachDayOfInterval, startOfMonth, endOfMonth, format } from 'date-fns'
+import {
+  TimeRecord,
+  filterCurrentMonthRecords,
+  getRecordSegments,
+  isRestDay,
+  formatMinutesToHours
+} from './timeUtils'
+import { WorkSettings, DEFAULT_WORK_SETTINGS, timeToMinutes } from './settingsUtils'
+import { LeaveRecord, filterMonthLeaves, getLeaveDays } from './leaveUtils'
+
+// 考勤异常：late=迟到, early=早退, absent=缺勤, missingEnd=缺下班卡
+export type AnomalyKind = 'late' | 'early' | 'absent' | 'missingEnd'
+
+export const ANOMALY_KIND_LABELS: Record<AnomalyKind, string> = {
+  late: '迟到',
+  early: '早退',
+  absent: '缺勤',
+  missingEnd: '缺下班卡'
+}
+
+export interface Anomaly {
+  date: string // YYYY-MM-DD
+  kind: AnomalyKind
+  detail: string
+  minutes?: number // 迟到、早退的分钟数
+}
+
+export interface ComplianceResult {
+  anomalies: Anomaly[] // 按日期排序
+  counts: Record<AnomalyKind, number>
+}
+
+const KIND_ORDER: AnomalyKind[] = ['absent', 'late', 'early', 'missingEnd']
+
+// 没有下班时间，或下班时间与上班时间相同（只打了一次卡）
+function hasMissingEnd(record: TimeRecord): boolean {
+  if (record.punchStatus?.includes('missed')) return true
+  return getRecordSegments(record).some(segment =>
+    !segment.endTime || (segment.endTime === segment.startTime && !segment.endsNextDay && !segment.startsNextDay)
+  )
+}
+
+// 分钟数转换为 HH:mm（超过 24 小时显示为次日）
+function minutesToTime(minutes: number): string {
+  const nextDay = minutes >= 24 * 60
+  const value = minutes % (24 * 60)
+  const time = `${String(Math.floor(value / 60)).padStart(2, '0')}:${String(value % 60).padStart(2, '0')}`
+  return nextDay ? `次日 ${time}` : time
+}
+
+// 当天的请假情况：上午、下午是否已请假
+function getLeaveCoverage(leaves: LeaveRecord[]): { morning: boolean; afternoon: boolean } {
+  const days = leaves.reduce((sum, leave) => sum + getLeaveDays(leave), 0)
+  return {
+    morning: days >= 1 || leaves.some(leave => leave.duration === 'morning'),
+    afternoon: days >= 1 || leaves.some(leave => leave.duration === 'afternoon')
+  }
+}
+
+/**
+ * 检查某月的考勤异常
+ * 只检查工作日：上班晚于上班时间（弹性班为核心时段开始）加宽限记为迟到；
+ * 下班早于下班时间（弹性班为核心时段结束，或当天工时不足标准日工时）记为早退；
+ * 已过去的工作日既没有记录也没有请满一天记为缺勤。请假的半天不检查迟到或早退
+ */
+export function checkCompliance(
+  month: Date,
+  records: TimeRecord[],
+  leaves: LeaveRecord[],
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS,
+  now: Date = new Date()
+): ComplianceResult {
+  const anomalies: Anomaly[] = []
+  const flexible = settings.scheduleMode === 'flexible'
+  const lateAfter = timeToMinutes(flexible ? settings.coreStartTime : settings.workStartTime) + settings.lateGraceMinutes
+  const earlyBefore = timeToMinutes(flexible ? settings.coreEndTime : settings.workEndTime)
+  const standardMinutes = settings.standardDailyHours * 60
+
+  const recordsByDate = new Map<string, TimeRecord[]>()
+  filterCurrentMonthRecords(records, month).forEach(record => {
+    recordsByDate.set(record.date, [...(recordsByDate.get(record.date) ?? []), record])
+  })
+  const leavesByDate = new Map<string, LeaveRecord[]>()
+  filterMonthLeaves(leaves, month).forEach(leave => {
+    leavesByDate.set(leave.date, [...(leavesByDate.get(leave.date) ?? []), leave])
+  })
+
+  recordsByDate.forEach((dayRecords, date) => {
+    if (isRestDay(date)) return
+    const coverage = getLeaveCoverage(leavesByDate.get(date) ?? [])
+    const segments = dayRecords.flatMap(record => getRecordSegments(record))
+    const missingEnd = dayRecords.some(hasMissingEnd)
+
+    // 当天最早的上班时间
+    const starts = segments.filter(segment => !segment.startsNextDay).map(segment => timeToMinutes(segment.startTime))
+    if (!coverage.morning && starts.length > 0) {
+      const start = Math.min(...starts)
+      if (start > lateAfter) {
+        const minutes = start - lateAfter + settings.lateGraceMinutes
+        anomalies.push({ date, kind: 'late', minutes, detail: `上班 ${minutesToTime(start)}，迟到 ${formatMinutesToHours(minutes)}` })
+      }
+    }
+
+    if (missingEnd) {
+      anomalies.push({ date, kind: 'missingEnd', detail: '缺少下班打卡，工时可能不准确' })
+      return
+    }
+
+    // 当天最晚的下班时间，次日下班视为不早退
+    if (coverage.afternoon) return
+    const end = Math.max(...segments.map(segment => timeToMinutes(segment.endTime) + (segment.endsNextDay ? 24 * 60 : 0)))
+    if (end < earlyBefore) {
+      const minutes = earlyBefore - end
+      anomalies.push({ date, kind: 'early', minutes, detail: `下班 ${minutesToTime(end)}，早退 ${formatMinutesToHours(minutes)}` })
+      return
+    }
+    if (flexible && !coverage.morning) {
+      const worked = dayRecords.reduce((sum, record) => sum + (record.rawWorkedMinutes ?? record.workedMinutes), 0)
+      if (worked < standardMinutes) {
+        const minutes = standardMinutes - worked
+        anomalies.push({ date, kind: 'early', minutes, detail: `工时 ${formatMinutesToHours(worked)}，不足标准日工时 ${formatMinutesToHours(minutes)}` })
+      }
+    }
+  })
+
+  // 已过去的工作日没有记录也没有请满一天
+  const today = format(now, 'yyyy-MM-dd')
+  eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).forEach(day => {
+    const date = format(day, 'yyyy-MM-dd')
+    if (date >= today || isRestDay(date) || recordsByDate.has(date)) return
+    const coverage = getLeaveCoverage(leavesByDate.get(date) ?? [])
+    if (coverage.morning && coverage.afternoon) return
+    anomalies.push({
+      date,
+      kind: 'absent',
+      detail: coverage.morning || coverage.afternoon ? '只请了半天假，没有打卡记录' : '没有打卡记录，也没有请假'
+    })
+  })
+
+  anomalies.sort((a, b) => a.date.localeCompare(b.date) || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind))
+  const counts: Record<AnomalyKind, number> = { late: 0, early: 0, absent: 0, missingEnd: 0 }
+  anomalies.forEach(anomaly => {
+    counts[anomaly.kind]++
+  })
+  return { anomalies, counts }
+}
+
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { applyWithConflicts } from './conflictUtils'
+import { createRecord } from './timeUtils'
+import { DEFAULT_WORK_SETTINGS } from './settingsUtils'
+
+describe('applyWithConflicts', () => {
+  it('合并时把合并前的时段记入修改历史', () => {
+    const existing = createRecord({ date: '2025-03-03', segments: [{ startTime: '09:00', endTime: '12:00' }] })
+    const incoming = createRecord({ date: '2025-03-03', segments: [{ startTime: '11:00', endTime: '18:00' }] })
+
+    const summary = applyWithConflicts([existing], [incoming], 'merge', DEFAULT_WORK_SETTINGS, '张三')
+    expect(summary.merged).toBe(1)
+    const [merged] = summary.records
+    expect(merged.id).toBe(existing.id)
+    expect(merged.segments).toMatchObject([{ startTime: '09:00', endTime: '18:00' }])
+    expect(merged.history).toEqual([expect.objectContaining({
+      editedBy: '张三',
+      reason: 'merge',
+      previous: { date: '2025-03-03', segments: existing.segments }
+    })])
+  })
+})
@@ -0,0 +1,175 @@
+import { differenceInCalendarDays, parse } from 'date-fns'
+import {
+  TimeRecord,
+  RecordChange,
+  WorkSegment,
+  createRecord,
+  getRecordSegments,
+  normalizeSegments
+} from './timeUtils'
+import { WorkSettings, timeToMinutes } from './settingsUtils'
+
+// 新记录与已有记录冲突时的处理方式
+// merge=合并时段到已有记录, replace=替换已有记录, keepBoth=都保留, skip=不添加新记录
+export type ConflictStrategy = 'merge' | 'replace' | 'keepBoth' | 'skip'
+
+export interface ConflictSummary {
+  records: TimeRecord[] // 处理后的完整记录列表
+  added: number
+  merged: number
+  replaced: number
+  skipped: number
+}
+
+const EPOCH = new Date(2000, 0, 1)
+
+// 记录各时段换算为绝对分钟区间（以 2000-01-01 零点为起点），用于跨日比较
+function toAbsoluteIntervals(record: TimeRecord): [number, number][] {
+  const dayOffset = differenceInCalendarDays(parse(record.date, 'yyyy-MM-dd', new Date()), EPOCH) * 24 * 60
+  return normalizeSegments(getRecordSegments(record)).map(segment => [
+    dayOffset + timeToMinutes(segment.startTime) + (segment.startsNextDay ? 24 * 60 : 0),
+    dayOffset + timeToMinutes(segment.endTime) + (segment.endsNextDay ? 24 * 60 : 0)
+  ])
+}
+
+// 两条记录的工作时间是否有重叠（含跨零点延伸到相邻日期的情况）
+export function recordsOverlap(a: TimeRecord, b: TimeRecord): boolean {
+  const intervalsB = toAbsoluteIntervals(b)
+  return toAbsoluteIntervals(a).some(([startA, endA]) =>
+    intervalsB.some(([startB, endB]) => startA < endB && startB < endA)
+  )
+}
+
+// 两条记录是否完全相同（同一天、同样的时段）
+export function isDuplicateRecord(a: TimeRecord, b: TimeRecord): boolean {
+  const key = (record: TimeRecord) => JSON.stringify(normalizeSegments(getRecordSegments(record)))
+  return a.date === b.date && key(a) === key(b)
+}
+
+// 与新记录冲突的已有记录：同一天的记录，或时间有重叠的相邻日期记录
+export function findConflicts(incoming: TimeRecord, existing: TimeRecord[]): TimeRecord[] {
+  return existing.filter(record =>
+    record.id !== incoming.id && (record.date === incoming.date || recordsOverlap(record, incoming))
+  )
+}
+
+// 列表中存在冲突的记录 id（同一天多条记录或时间重叠）
+export function findConflictingRecordIds(records: TimeRecord[]): Set<string> {
+  const ids = new Set<string>()
+  const sorted = [...records].sort((a, b) => a.date.localeCompare(b.date))
+  sorted.forEach((record, index) => {
+    // 只需与后面相邻一天以内的记录比较
+    for (let i = index + 1; i < sorted.length; i++) {
+      const other = sorted[i]
+      if (other.date !== record.date && !recordsOverlap(record, other)) {
+        if (differenceInCalendarDays(
+          parse(other.date, 'yyyy-MM-dd', new Date()),
+          parse(record.date, 'yyyy-MM-dd', new Date())
+        ) > 1) break
+        continue
+      }
+      ids.add(record.id)
+      ids.add(other.id)
+    }
+  })
+  return ids
+}
+
+// 合并同一天的时段：按开始时间排序，重叠或相接的时段合为一段
+export function mergeSegments(segments: WorkSegment[]): WorkSegment[] {
+  const intervals = normalizeSegments(segments)
+    .map(segment => ({
+      start: timeToMinutes(segment.startTime) + (segment.startsNextDay ? 24 * 60 : 0),
+      end: timeToMinutes(segment.endTime) + (segment.endsNextDay ? 24 * 60 : 0)
+    }))
+    .sort((a, b) => a.start - b.start)
+
+  const merged: { start: number; end: number }[] = []
+  intervals.forEach(interval => {
+    const last = merged[merged.length - 1]
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end)
+    } else {
+      merged.push({ ...interval })
+    }
+  })
+
+  const toTime = (minutes: number) => {
+    const value = minutes % (24 * 60)
+    return `${String(Math.floor(value / 60)).padStart(2, '0')}:${String(value % 60).padStart(2, '0')}`
+  }
+  return merged.map(interval => ({
+    startTime: toTime(interval.start),
+    endTime: toTime(interval.end),
+    startsNextDay: interval.start >= 24 * 60,
+    endsNextDay: interval.end >= 24 * 60
+  }))
+}
+
+/**
+ * 按指定方式把新记录加入记录列表
+ * 新记录依次处理，批量导入时文件内部的重复也按同样方式处理
+ * merge 只合并同一天的记录；与相邻日期跨零点重叠的记录保持不变，合并前的时段记入修改历史
+ */
+export function applyWithConflicts(
+  existing: TimeRecord[],
+  incoming: TimeRecord[],
+  strategy: ConflictStrategy,
+  settings: WorkSettings,
+  editedBy: string = '未署名'
+): ConflictSummary {
+  const summary: ConflictSummary = { records: [...existing], added: 0, merged: 0, replaced: 0, skipped: 0 }
+
+  incoming.forEach(record => {
+    const conflicts = findConflicts(record, summary.records)
+    if (conflicts.length === 0 || strategy === 'keepBoth') {
+      summary.records.push(record)
+      summary.added++
+      return
+    }
+
+    if (strategy === 'skip' || conflicts.some(conflict => isDuplicateRecord(conflict, record))) {
+      // 除“都保留”外，完全相同的记录不重复添加
+      summary.skipped++
+      return
+    }
+
+    if (strategy === 'replace') {
+      const conflictIds = new Set(conflicts.map(conflict => conflict.id))
+      summary.records = [...summary.records.filter(item => !conflictIds.has(item.id)), record]
+      summary.replaced += conflicts.length
+      return
+    }
+
+    const sameDay = conflicts.filter(conflict => conflict.date === record.date)
+    if (sameDay.length === 0) {
+      summary.records.push(record)
+      summary.added++
+      return
+    }
+    const [target, ...rest] = sameDay
+    const segments = mergeSegments([...sameDay, record].flatMap(item => getRecordSegments(item)))
+    // 只重新计算时段和工时，来源等字段沿用已有记录，打卡异常状态取并集
+    const punchStatus = Array.from(new Set([...sameDay, record].flatMap(item => item.punchStatus ?? [])))
+    const change: RecordChange = {
+      editedBy,
+      editedAt: new Date().toISOString(),
+      previous: { date: target.date, segments: getRecordSegments(target) },
+      reason: 'merge'
+    }
+    const mergedRecord: TimeRecord = {
+      ...target,
+      ...createRecord({ date: record.date, segments }, target.source, settings),
+      id: target.id,
+      history: [...(target.history ?? []), change],
+      ...(punchStatus.length > 0 ? { punchStatus } : {})
+    }
+    const removeIds = new Set(rest.map(item => item.id))
+    summary.records = summary.records
+      .filter(item => !removeIds.has(item.id))
+      .map(item => (item.id === target.id ? mergedRecord : item))
+    summary.merged++
+  })
+
+  return summary
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, parseRecordRows, recordsToCsv } from './exportUtils'
+import { createRecord } from './timeUtils'
+import { DEFAULT_WORK_SETTINGS } from './settingsUtils'
+
+describe('parseCsv', () => {
+  it('去掉 BOM，支持 CRLF 和 LF 换行', () => {
+    expect(parseCsv('\uFEFFa,b\r\n1,2\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']])
+  })
+
+  it('引号内的逗号、转义引号和换行属于同一个单元格', () => {
+    expect(parseCsv('备注,日期\n"加班, ""紧急""\r\n第二行",2025-03-03\n')).toEqual([
+      ['备注', '日期'],
+      ['加班, "紧急"\r\n第二行', '2025-03-03']
+    ])
+  })
+
+  it('保留空单元格', () => {
+    expect(parseCsv('a,,c\n,,')).toEqual([['a', '', 'c'], ['', '', '']])
+  })
+})
+
+describe('parseRecordRows', () => {
+  it('导出的 CSV 可以原样导入', () => {
+    const record = createRecord({
+      date: '2025-03-03',
+      segments: [{ startTime: '09:00', endTime: '12:00' }, { startTime: '19:00', endTime: '01:30', endsNextDay: true }]
+    }, 'manual', DEFAULT_WORK_SETTINGS)
+    const result = parseRecordRows(parseCsv(recordsToCsv([record])), DEFAULT_WORK_SETTINGS)
+    expect(result.errors).toEqual([])
+    expect(result.records).toHaveLength(1)
+    expect(result.records[0].segments).toEqual(record.segments)
+    expect(result.records[0].workedMinutes).toBe(record.workedMinutes)
+  })
+
+  it('识别“次日”下班时间', () => {
+    const result = parseRecordRows([['日期', '上班时间', '下班时间'], ['2025/3/3', '19:00', '次日 02:00']], DEFAULT_WORK_SETTINGS)
+    expect(result.records[0]).toMatchObject({ date: '2025-03-03', endsNextDay: true, workedMinutes: 7 * 60 })
+  })
+
+  it('按行报告错误，表头为第 1 行', () => {
+    const result = parseRecordRows([
+      ['日期', '上班时间', '下班时间'],
+      ['2025-02-30', '09:00', '18:00'],
+      ['2025-03-03', '9点', '18:00'],
+      ['', '', '']
+    ], DEFAULT_WORK_SETTINGS)
+    expect(result.records).toEqual([])
+    expect(result.errors.map(error => error.line)).toEqual([2, 3])
+  })
+})
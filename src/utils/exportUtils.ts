@@ -0,0 +1,250 @@
+import {
+  TimeRecord,
+  WorkSegment,
+  createRecord,
+  getRecordSegments,
+  formatSegments,
+  getHolidayName,
+  OVERTIME_CATEGORY_LABELS,
+  getRecordOvertimeCategory,
+  getWeightedOvertimeMinutes,
+  estimateOvertimePay
+} from './timeUtils'
+import { WorkSettings, DEFAULT_WORK_SETTINGS } from './settingsUtils'
+
+// 导出/导入的列（表头使用中文，导入时也接受英文 key）
+const COLUMNS = [
+  { key: 'date', header: '日期' },
+  { key: 'type', header: '类型' },
+  { key: 'start', header: '上班时间' },
+  { key: 'end', header: '下班时间' },
+  { key: 'workedMinutes', header: '工作分钟' },
+  { key: 'overtimeMinutes', header: '加班分钟' },
+  { key: 'holiday', header: '节假日' },
+  { key: 'segments', header: '工作时段' },
+  { key: 'rawWorkedMinutes', header: '实际工作分钟' },
+  { key: 'rawOvertimeMinutes', header: '实际加班分钟' },
+  { key: 'overtimeCategory', header: '加班类别' },
+  { key: 'weightedOvertimeMinutes', header: '折算加班分钟' },
+  { key: 'overtimePay', header: '加班费估算' }
+] as const
+
+type ColumnKey = typeof COLUMNS[number]['key']
+
+// 行级导入错误，line 为文件中的行号（表头为第 1 行）
+export interface ImportError {
+  line: number
+  message: string
+}
+
+// 通过校验的记录尚未与已有记录合并，冲突处理见 conflictUtils
+export interface ImportResult {
+  records: TimeRecord[]
+  errors: ImportError[]
+}
+
+// 筛选日期范围内的记录（含首尾），按日期排序
+export function filterRecordsInRange(records: TimeRecord[], from: string, to: string): TimeRecord[] {
+  return records
+    .filter(record => record.date >= from && record.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function recordToRow(record: TimeRecord, settings: WorkSettings): string[] {
+  const segments = getRecordSegments(record)
+  const last = segments[segments.length - 1]
+  const weightedOvertime = getWeightedOvertimeMinutes(record, settings)
+  const overtimePay = estimateOvertimePay(weightedOvertime, settings)
+  return [
+    record.date,
+    record.type === 'holiday' ? '休息日' : '工作日',
+    segments[0]?.startTime ?? '',
+    last ? `${last.endsNextDay ? '次日 ' : ''}${last.endTime}` : '',
+    String(record.workedMinutes),
+    String(record.overtimeMinutes),
+    getHolidayName(record.date) ?? '',
+    formatSegments(segments),
+    String(record.rawWorkedMinutes ?? record.workedMinutes),
+    String(record.rawOvertimeMinutes ?? record.overtimeMinutes),
+    OVERTIME_CATEGORY_LABELS[getRecordOvertimeCategory(record)],
+    String(weightedOvertime),
+    overtimePay === null ? '' : overtimePay.toFixed(2)
+  ]
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// 生成 CSV 文本（带 BOM，Excel 打开中文不乱码）；折算加班和加班费按 settings 中的倍数与时薪计算
+export function recordsToCsv(records: TimeRecord[], settings: WorkSettings = DEFAULT_WORK_SETTINGS): string {
+  const lines = [COLUMNS.map(column => column.header), ...records.map(record => recordToRow(record, settings))]
+  return '\uFEFF' + lines.map(line => line.map(escapeCsvCell).join(',')).join('\r\n')
+}
+
+// 生成 XLSX 文件内容（导出仍依赖 xlsx 库，按需加载；只写入本地记录，不解析外部文件，导入只支持 CSV）
+export async function recordsToXlsx(records: TimeRecord[], settings: WorkSettings = DEFAULT_WORK_SETTINGS): Promise<Blob> {
+  const XLSX = await import('xlsx')
+  const sheet = XLSX.utils.aoa_to_sheet([
+    COLUMNS.map(column => column.header),
+    ...records.map(record => recordToRow(record, settings))
+  ])
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, '打卡记录')
+  const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
+
+// 解析 CSV 文本为二维数组（支持引号、转义引号和换行）
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  const source = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+// 日期支持 2025-01-05、2025/1/5、2025.1.5
+function normalizeDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/)
+  if (!match) return null
+  const [, year, month, day] = match
+  const date = new Date(Number(year), Number(month) - 1, Number(day))
+  if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) return null
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+// 时间支持 9:00、09:00、次日 02:00
+function parseTimeCell(value: string): { time: string; nextDay: boolean } | null {
+  const match = value.trim().match(/^(次日\s*)?(\d{1,2})[:：](\d{2})$/)
+  if (!match) return null
+  const hours = Number(match[2])
+  const minutes = Number(match[3])
+  if (hours > 23 || minutes > 59) return null
+  return { time: `${String(hours).padStart(2, '0')}:${match[3]}`, nextDay: Boolean(match[1]) }
+}
+
+// 解析“09:00 - 12:00，13:00 - 次日 02:00”格式的时段
+function parseSegmentsCell(value: string): WorkSegment[] | null {
+  const parts = value.split(/[，,;；]/).map(part => part.trim()).filter(Boolean)
+  const segments: WorkSegment[] = []
+  for (const part of parts) {
+    const [startRaw, endRaw] = part.split(/\s+-\s+|~|～/)
+    const start = startRaw ? parseTimeCell(startRaw) : null
+    const end = endRaw ? parseTimeCell(endRaw) : null
+    if (!start || !end) return null
+    segments.push({ startTime: start.time, endTime: end.time, startsNextDay: start.nextDay, endsNextDay: end.nextDay })
+  }
+  return segments.length > 0 ? segments : null
+}
+
+function mapHeader(header: string[]): Partial<Record<ColumnKey, number>> {
+  const mapping: Partial<Record<ColumnKey, number>> = {}
+  header.forEach((cell, index) => {
+    const name = cell.trim()
+    const column = COLUMNS.find(item => item.header === name || item.key === name)
+    if (column) mapping[column.key] = index
+  })
+  return mapping
+}
+
+/**
+ * 校验导入的表格行并生成记录
+ * 工时与加班按当前规则重新计算，文件中的分钟数仅作参考
+ */
+export function parseRecordRows(rows: string[][], settings: WorkSettings): ImportResult {
+  const result: ImportResult = { records: [], errors: [] }
+  if (rows.length === 0) {
+    result.errors.push({ line: 1, message: '文件为空' })
+    return result
+  }
+
+  const columns = mapHeader(rows[0])
+  if (columns.date === undefined || (columns.segments === undefined && (columns.start === undefined || columns.end === undefined))) {
+    result.errors.push({ line: 1, message: '缺少必需的列：日期、上班时间、下班时间（或工作时段）' })
+    return result
+  }
+
+  const cell = (row: string[], key: ColumnKey) => {
+    const index = columns[key]
+    return index === undefined ? '' : String(row[index] ?? '').trim()
+  }
+
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2
+    if (row.every(value => !String(value).trim())) return
+
+    const date = normalizeDate(cell(row, 'date'))
+    if (!date) {
+      result.errors.push({ line, message: `日期格式错误：${cell(row, 'date') || '（空）'}` })
+      return
+    }
+
+    let segments: WorkSegment[] | null = null
+    const segmentsText = cell(row, 'segments')
+    if (segmentsText) {
+      segments = parseSegmentsCell(segmentsText)
+      if (!segments) {
+        result.errors.push({ line, message: `工作时段格式错误：${segmentsText}` })
+        return
+      }
+    } else {
+      const start = parseTimeCell(cell(row, 'start'))
+      const end = parseTimeCell(cell(row, 'end'))
+      if (!start || !end) {
+        result.errors.push({ line, message: `上下班时间格式错误：${cell(row, 'start') || '（空）'} / ${cell(row, 'end') || '（空）'}` })
+        return
+      }
+      segments = [{ startTime: start.time, endTime: end.time, startsNextDay: start.nextDay, endsNextDay: end.nextDay || undefined }]
+    }
+
+    result.records.push(createRecord({ date, segments }, 'import', settings))
+  })
+
+  return result
+}
+
+// 触发浏览器下载
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // 立即释放会让部分浏览器（Safari、Firefox）取消下载
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
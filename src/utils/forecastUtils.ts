@@ -0,0 +1,160 @@
+import {
+  startOfMonth,
+  endOfMonth,
+  eachDayOfInterval,
+  format,
+  isBefore,
+  startOfDay,
+  max
+} from 'date-fns'
+import {
+  TimeRecord,
+  isRestDay,
+  getWorkdaysInMonth,
+  getRequiredOvertimeMinutes,
+  filterCurrentMonthRecords
+} from './timeUtils'
+import { WorkSettings, timeToMinutes } from './settingsUtils'
+import { getProfileStorageKey, loadActiveProfileId } from './profileUtils'
+import { LeaveRecord, getExemptLeaveDaysByDate, getMonthExemptLeaveDays } from './leaveUtils'
+
+// 计划在休息日加班的分钟数，key 为 YYYY-MM-DD
+export type RestDayPlan = Record<string, number>
+
+export interface OvertimeForecast {
+  requiredOvertime: number
+  totalOvertime: number
+  remainingWorkdays: string[] // 尚未记录的剩余工作日
+  remainingRestDays: string[] // 尚未记录的剩余休息日
+  plannedRestDayMinutes: number // 计划中的休息日加班
+  remainingOvertime: number // 扣除计划后仍需在工作日完成的加班
+  neededPerWorkday: number // 剩余每个工作日需要加班的分钟数
+  projectedTotal: number // 按目前节奏预计的月底加班总量（含计划）
+  suggestedStartTime: string // 建议下班时间所依据的上班时间
+  suggestedClockOut: string | null // 建议下班时间 HH:mm，无需加班或已无剩余工作日时为 null
+  suggestedClockOutNextDay: boolean
+}
+
+// 近期工作日的平均上班时间，没有记录时按 09:00
+function getTypicalStartTime(records: TimeRecord[]): string {
+  const starts = records
+    .filter(record => record.type === 'workday' && record.startTime)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, 10)
+    .map(record => timeToMinutes(record.startTime))
+  if (starts.length === 0) return '09:00'
+  const average = Math.round(starts.reduce((sum, value) => sum + value, 0) / starts.length)
+  return `${String(Math.floor(average / 60)).padStart(2, '0')}:${String(average % 60).padStart(2, '0')}`
+}
+
+// 从上班时间起工作 workedMinutes 分钟（按午休规则顺延）的下班时间，返回当天零点起的分钟数
+export function getClockOutMinutes(startTime: string, workedMinutes: number, settings: WorkSettings): number {
+  const start = timeToMinutes(startTime)
+  const lunchStart = timeToMinutes(settings.lunchStart)
+  const lunchEnd = timeToMinutes(settings.lunchEnd)
+  let end = start + workedMinutes
+  // 工作时段跨过午休时需要顺延午休中未工作的部分
+  if (start < lunchEnd && end > lunchStart) {
+    end += lunchEnd - Math.max(start, lunchStart)
+  }
+  return end
+}
+
+/**
+ * 计算月底前的加班节奏
+ * 已有记录或全天请假的日期不再计入剩余天数；过去的月份没有剩余天数
+ */
+export function forecastOvertime(
+  month: Date,
+  records: TimeRecord[],
+  settings: WorkSettings,
+  plan: RestDayPlan = {},
+  leaves: LeaveRecord[] = [],
+  now: Date = new Date()
+): OvertimeForecast {
+  const today = startOfDay(now)
+  const monthRecords = filterCurrentMonthRecords(records, month)
+  // 已有记录或全天请假的日期
+  const coveredDates = new Set(monthRecords.map(record => record.date))
+  getExemptLeaveDaysByDate(leaves, settings).forEach((days, date) => {
+    if (days >= 1) coveredDates.add(date)
+  })
+  const requiredOvertime = getRequiredOvertimeMinutes(
+    getWorkdaysInMonth(month),
+    settings,
+    getMonthExemptLeaveDays(leaves, month, settings)
+  )
+  const totalOvertime = monthRecords.reduce((sum, record) => sum + record.overtimeMinutes, 0)
+
+  const monthEnd = endOfMonth(month)
+  const remainingDays = isBefore(monthEnd, today)
+    ? []
+    : eachDayOfInterval({ start: max([startOfMonth(month), today]), end: monthEnd })
+      .map(day => format(day, 'yyyy-MM-dd'))
+      .filter(date => !coveredDates.has(date))
+  const remainingWorkdays = remainingDays.filter(date => !isRestDay(date))
+  const remainingRestDays = remainingDays.filter(date => isRestDay(date))
+
+  const plannedRestDayMinutes = remainingRestDays.reduce((sum, date) => sum + (plan[date] ?? 0), 0)
+  const remainingOvertime = Math.max(0, requiredOvertime - totalOvertime - plannedRestDayMinutes)
+  // 加班按块计入时，每天需加班取整到整块
+  const granularity = Math.max(1, settings.roundingMinutes, settings.overtimeBlockMinutes)
+  const neededPerWorkday = remainingWorkdays.length > 0
+    ? Math.ceil(remainingOvertime / remainingWorkdays.length / granularity) * granularity
+    : 0
+
+  // 目前节奏：已记录工作日的平均加班 × 剩余工作日
+  const workdayRecords = monthRecords.filter(record => record.type === 'workday')
+  const averageWorkdayOvertime = workdayRecords.length > 0
+    ? workdayRecords.reduce((sum, record) => sum + record.overtimeMinutes, 0) / workdayRecords.length
+    : 0
+  const projectedTotal = Math.round(totalOvertime + averageWorkdayOvertime * remainingWorkdays.length + plannedRestDayMinutes)
+
+  const suggestedStartTime = getTypicalStartTime(records)
+  let suggestedClockOut: string | null = null
+  let suggestedClockOutNextDay = false
+  if (remainingWorkdays.length > 0 && neededPerWorkday > 0) {
+    // 工作日超出标准工时后还要过了起算门槛才开始计加班
+    const workedMinutes = settings.standardDailyHours * 60 + settings.overtimeThresholdMinutes + neededPerWorkday
+    const end = getClockOutMinutes(suggestedStartTime, workedMinutes, settings)
+    suggestedClockOutNextDay = end >= 24 * 60
+    const clock = end % (24 * 60)
+    suggestedClockOut = `${String(Math.floor(clock / 60)).padStart(2, '0')}:${String(clock % 60).padStart(2, '0')}`
+  }
+
+  return {
+    requiredOvertime,
+    totalOvertime,
+    remainingWorkdays,
+    remainingRestDays,
+    plannedRestDayMinutes,
+    remainingOvertime,
+    neededPerWorkday,
+    projectedTotal,
+    suggestedStartTime,
+    suggestedClockOut,
+    suggestedClockOutNextDay
+  }
+}
+
+// 休息日加班计划只保留当前及以后的日期
+export function pruneRestDayPlan(plan: RestDayPlan, now: Date = new Date()): RestDayPlan {
+  const today = format(now, 'yyyy-MM-dd')
+  return Object.fromEntries(Object.entries(plan).filter(([date, minutes]) =>
+    minutes > 0 && date >= today
+  ))
+}
+
+// 本地存储
+export function saveRestDayPlan(plan: RestDayPlan, profileId: string = loadActiveProfileId()): void {
+  localStorage.setItem(getProfileStorageKey('restDayPlan', profileId), JSON.stringify(plan))
+}
+
+export function loadRestDayPlan(profileId: string = loadActiveProfileId()): RestDayPlan {
+  try {
+    const data = JSON.parse(localStorage.getItem(getProfileStorageKey('restDayPlan', profileId)) ?? 'null')
+    return data && typeof data === 'object' && !Array.isArray(data) ? pruneRestDayPlan(data) : {}
+  } catch {
+    return {}
+  }
+}
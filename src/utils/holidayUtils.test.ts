@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { parseHolidayCalendarIcs, parseHolidayCalendarJson } from './holidayUtils'
+
+function ics(...events: string[]): string {
+  return ['BEGIN:VCALENDAR', ...events, 'END:VCALENDAR'].join('\r\n')
+}
+
+describe('parseHolidayCalendarIcs', () => {
+  it('DTEND 当天不包含在内', () => {
+    const [calendar] = parseHolidayCalendarIcs(ics(
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20251001',
+      'DTEND;VALUE=DATE:20251004',
+      'SUMMARY:国庆节',
+      'END:VEVENT'
+    ), 'CN')
+    expect(calendar.holidays.map(entry => entry.date)).toEqual(['2025-10-01', '2025-10-02', '2025-10-03'])
+  })
+
+  it('没有 DTEND 时只算开始当天', () => {
+    const [calendar] = parseHolidayCalendarIcs(ics(
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20250101',
+      'SUMMARY:元旦',
+      'END:VEVENT'
+    ), 'CN')
+    expect(calendar.holidays).toEqual([{ date: '2025-01-01', name: '元旦' }])
+  })
+
+  it('展开折行，并识别调休上班日', () => {
+    const [calendar] = parseHolidayCalendarIcs(ics(
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20250928',
+      'DTEND;VALUE=DATE:20250929',
+      'SUMMARY:国庆',
+      ' 节补班',
+      'END:VEVENT'
+    ), 'CN')
+    expect(calendar.holidays).toEqual([])
+    expect(calendar.workdays).toEqual([{ date: '2025-09-28', name: '国庆节补班' }])
+  })
+
+  it('跨年的事件按年份拆分', () => {
+    const calendars = parseHolidayCalendarIcs(ics(
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20251231',
+      'DTEND;VALUE=DATE:20260102',
+      'SUMMARY:元旦',
+      'END:VEVENT'
+    ), 'CN')
+    expect(calendars.map(calendar => [calendar.year, calendar.holidays.map(entry => entry.date)])).toEqual([
+      [2025, ['2025-12-31']],
+      [2026, ['2026-01-01']]
+    ])
+  })
+
+  it('没有事件时报错', () => {
+    expect(() => parseHolidayCalendarIcs(ics(), 'CN')).toThrow()
+  })
+})
+
+describe('parseHolidayCalendarJson', () => {
+  it('拒绝其他年份的日期', () => {
+    const text = JSON.stringify({ version: 1, region: 'CN', year: 2025, holidays: [{ date: '2026-01-01', name: '元旦' }] })
+    expect(() => parseHolidayCalendarJson(text)).toThrow('其他年份')
+  })
+})
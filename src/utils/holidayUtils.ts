@@ -0,0 +1,295 @@
+import cn2024 from '../data/holidays/cn-2024.json'
+import cn2025 from '../data/holidays/cn-2025.json'
+import cn2026 from '../data/holidays/cn-2026.json'
+import { getProfileStorageKey, loadActiveProfileId } from './profileUtils'
+
+// 节假日日历数据格式版本
+export const HOLIDAY_CALENDAR_VERSION = 1
+
+export interface HolidayEntry {
+  date: string // YYYY-MM-DD
+  name: string // 如“国庆节”“国庆调休”
+}
+
+// 一个地区一年的节假日日历
+export interface HolidayCalendar {
+  version: number
+  region: string // 地区代码，如 CN
+  year: number
+  name: string
+  holidays: HolidayEntry[] // 放假日
+  workdays: HolidayEntry[] // 调休上班日
+  source?: 'builtin' | 'imported'
+}
+
+// 某一天的节假日信息
+export interface HolidayInfo {
+  kind: 'holiday' | 'workday' // holiday=放假, workday=调休上班
+  name: string
+}
+
+export const DEFAULT_REGION = 'CN'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const BUILTIN_CALENDARS: HolidayCalendar[] = [cn2024, cn2025, cn2026].map(calendar => ({
+  ...calendar,
+  source: 'builtin' as const
+}))
+
+let importedCalendars: HolidayCalendar[] = loadImportedCalendars()
+let activeRegion: string = loadProfileRegion()
+let dayIndex = buildDayIndex()
+
+function calendarKey(calendar: Pick<HolidayCalendar, 'region' | 'year'>): string {
+  return `${calendar.region}-${calendar.year}`
+}
+
+// 合并内置与导入的日历，同一地区同一年份以导入的为准
+export function getHolidayCalendars(): HolidayCalendar[] {
+  const byKey = new Map<string, HolidayCalendar>()
+  for (const calendar of [...BUILTIN_CALENDARS, ...importedCalendars]) {
+    byKey.set(calendarKey(calendar), calendar)
+  }
+  return Array.from(byKey.values()).sort((a, b) =>
+    a.region === b.region ? a.year - b.year : a.region.localeCompare(b.region)
+  )
+}
+
+function buildDayIndex(): Map<string, HolidayInfo> {
+  const index = new Map<string, HolidayInfo>()
+  for (const calendar of getHolidayCalendars()) {
+    if (calendar.region !== activeRegion) continue
+    calendar.holidays.forEach(entry => index.set(entry.date, { kind: 'holiday', name: entry.name }))
+    calendar.workdays.forEach(entry => index.set(entry.date, { kind: 'workday', name: entry.name }))
+  }
+  return index
+}
+
+// 查询某天的节假日信息（当前地区）
+export function getHolidayInfo(dateStr: string): HolidayInfo | undefined {
+  return dayIndex.get(dateStr)
+}
+
+// 当前地区是否有该年份的日历数据
+export function hasHolidayCalendar(year: number, region: string = activeRegion): boolean {
+  return getHolidayCalendars().some(calendar => calendar.region === region && calendar.year === year)
+}
+
+export function getActiveRegion(): string {
+  return activeRegion
+}
+
+// 档案选择的节假日地区（每个档案单独保存）
+export function loadProfileRegion(profileId: string = loadActiveProfileId()): string {
+  return localStorage.getItem(getProfileStorageKey('holidayRegion', profileId)) ?? DEFAULT_REGION
+}
+
+export function setActiveRegion(region: string, profileId: string = loadActiveProfileId()): void {
+  activeRegion = region
+  localStorage.setItem(getProfileStorageKey('holidayRegion', profileId), region)
+  dayIndex = buildDayIndex()
+}
+
+/**
+ * 临时按指定地区计算（如对比其他档案的工作日数），结束后恢复当前地区
+ * fn 必须是同步函数
+ */
+export function withHolidayRegion<T>(region: string, fn: () => T): T {
+  if (region === activeRegion) return fn()
+  const previousRegion = activeRegion
+  const previousIndex = dayIndex
+  activeRegion = region
+  dayIndex = buildDayIndex()
+  try {
+    return fn()
+  } finally {
+    activeRegion = previousRegion
+    dayIndex = previousIndex
+  }
+}
+
+// 可选地区（内置 + 已导入）
+export function getAvailableRegions(): string[] {
+  return Array.from(new Set([DEFAULT_REGION, ...getHolidayCalendars().map(calendar => calendar.region)]))
+}
+
+// 导入日历（覆盖同地区同年份的已有数据）并持久化
+export function importHolidayCalendars(calendars: HolidayCalendar[]): void {
+  const keys = new Set(calendars.map(calendarKey))
+  importedCalendars = [
+    ...importedCalendars.filter(calendar => !keys.has(calendarKey(calendar))),
+    ...calendars.map(calendar => ({ ...calendar, source: 'imported' as const }))
+  ]
+  saveImportedCalendars(importedCalendars)
+  dayIndex = buildDayIndex()
+}
+
+// 删除导入的日历（内置日历会重新生效）
+export function removeHolidayCalendar(region: string, year: number): void {
+  importedCalendars = importedCalendars.filter(calendar => !(calendar.region === region && calendar.year === year))
+  saveImportedCalendars(importedCalendars)
+  dayIndex = buildDayIndex()
+}
+
+function validateEntries(value: unknown, field: string): HolidayEntry[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`字段 ${field} 必须是数组`)
+  }
+  return value.map((entry, index) => {
+    if (!entry || typeof entry.date !== 'string' || !DATE_PATTERN.test(entry.date)) {
+      throw new Error(`${field}[${index}] 的日期格式应为 YYYY-MM-DD`)
+    }
+    return { date: entry.date, name: typeof entry.name === 'string' ? entry.name : '' }
+  })
+}
+
+// 校验单个日历对象，格式不对时抛出错误
+function validateCalendar(item: unknown): HolidayCalendar {
+  if (!item || typeof item !== 'object') {
+    throw new Error('日历数据格式错误')
+  }
+  const raw = item as Record<string, unknown>
+  if (raw.version !== HOLIDAY_CALENDAR_VERSION) {
+    throw new Error(`不支持的日历版本：${String(raw.version)}`)
+  }
+  if (typeof raw.region !== 'string' || !raw.region) {
+    throw new Error('缺少地区代码 region')
+  }
+  if (typeof raw.year !== 'number') {
+    throw new Error('缺少年份 year')
+  }
+  const holidays = validateEntries(raw.holidays, 'holidays')
+  const workdays = validateEntries(raw.workdays ?? [], 'workdays')
+  const year = raw.year
+  if ([...holidays, ...workdays].some(entry => !entry.date.startsWith(`${year}-`))) {
+    throw new Error(`${year} 年日历中包含其他年份的日期`)
+  }
+  return {
+    version: HOLIDAY_CALENDAR_VERSION,
+    region: raw.region,
+    year,
+    name: typeof raw.name === 'string' ? raw.name : `${raw.region} ${year}`,
+    holidays,
+    workdays
+  }
+}
+
+/**
+ * 解析 JSON 格式的节假日日历
+ * 支持单个日历对象或日历数组
+ */
+export function parseHolidayCalendarJson(text: string): HolidayCalendar[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('文件不是有效的 JSON')
+  }
+
+  const items = Array.isArray(data) ? data : [data]
+  return items.map(validateCalendar)
+}
+
+// 解析 ICS 日期（DTSTART;VALUE=DATE:20251001）
+function parseIcsDate(value: string): Date | null {
+  const match = value.match(/(\d{4})(\d{2})(\d{2})/)
+  if (!match) return null
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+}
+
+function formatYMD(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// SUMMARY 中带“班”“补班”“调休上班”的事件视为调休上班日
+const ICS_WORKDAY_PATTERN = /补班|上班|[（(]班[)）]|^班$|\s班$/
+
+/**
+ * 解析 ICS 格式的节假日日历，按年份拆分为多个日历
+ * 每个 VEVENT 覆盖 DTSTART 到 DTEND（不含）之间的日期
+ */
+export function parseHolidayCalendarIcs(text: string, region: string): HolidayCalendar[] {
+  // 展开折行（以空格或 Tab 开头的行属于上一行）
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n')
+  const byYear = new Map<number, HolidayCalendar>()
+
+  let event: Record<string, string> | null = null
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {}
+      continue
+    }
+    if (line === 'END:VEVENT' && event) {
+      const start = parseIcsDate(event.DTSTART ?? '')
+      const end = parseIcsDate(event.DTEND ?? '') ?? (start ? new Date(start.getTime() + 86400000) : null)
+      const summary = (event.SUMMARY ?? '').trim()
+      if (start && end) {
+        const kind = ICS_WORKDAY_PATTERN.test(summary) ? 'workdays' : 'holidays'
+        const name = summary.replace(/[（(][休班][)）]$/, '').trim()
+        for (let day = new Date(start); day < end; day.setDate(day.getDate() + 1)) {
+          const year = day.getFullYear()
+          if (!byYear.has(year)) {
+            byYear.set(year, {
+              version: HOLIDAY_CALENDAR_VERSION,
+              region,
+              year,
+              name: `${region} ${year}`,
+              holidays: [],
+              workdays: []
+            })
+          }
+          byYear.get(year)![kind].push({ date: formatYMD(day), name })
+        }
+      }
+      event = null
+      continue
+    }
+    if (event) {
+      const separator = line.indexOf(':')
+      if (separator > 0) {
+        const key = line.slice(0, separator).split(';')[0]
+        event[key] = line.slice(separator + 1)
+      }
+    }
+  }
+
+  if (byYear.size === 0) {
+    throw new Error('ICS 文件中没有可识别的日期事件')
+  }
+  return Array.from(byYear.values())
+}
+
+// 根据文件名选择解析方式
+export function parseHolidayCalendarFile(fileName: string, text: string, region: string): HolidayCalendar[] {
+  if (fileName.toLowerCase().endsWith('.ics')) {
+    return parseHolidayCalendarIcs(text, region)
+  }
+  return parseHolidayCalendarJson(text)
+}
+
+// 本地存储
+function saveImportedCalendars(calendars: HolidayCalendar[]): void {
+  localStorage.setItem('holidayCalendars', JSON.stringify(calendars))
+}
+
+// 模块加载时即读取，数据损坏或格式过旧时不能抛出，否则整个应用无法启动
+// 无法通过校验的日历直接丢弃（内置日历会重新生效）
+function loadImportedCalendars(): HolidayCalendar[] {
+  let data: unknown
+  try {
+    data = JSON.parse(localStorage.getItem('holidayCalendars') ?? '[]')
+  } catch {
+    return []
+  }
+  if (!Array.isArray(data)) return []
+  return data.flatMap(item => {
+    try {
+      return [{ ...validateCalendar(item), source: 'imported' as const }]
+    } catch {
+      return []
+    }
+  })
+}
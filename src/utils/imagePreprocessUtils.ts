@@ -0,0 +1,172 @@
+// OCR 前的图片预处理：裁剪、放大、深色反色、灰度、对比度拉伸、二值化
+
+// 裁剪区域，取值为相对原图宽高的比例（0-1）
+export interface CropRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PreprocessOptions {
+  grayscale: boolean
+  contrast: boolean // 按亮度分布拉伸对比度
+  threshold: boolean // 二值化（Otsu 自动阈值）
+  invertDark: boolean // 深色主题截图自动反色为白底黑字
+  upscale: boolean // 小图放大
+  crop: CropRegion | null
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  grayscale: true,
+  contrast: true,
+  threshold: false,
+  invertDark: true,
+  upscale: true,
+  crop: null
+}
+
+// 放大后的目标宽度和最大放大倍数
+const UPSCALE_TARGET_WIDTH = 1200
+const MAX_UPSCALE = 3
+// 平均亮度低于此值视为深色主题
+const DARK_THEME_LUMINANCE = 110
+
+// 没有启用任何处理时直接识别原图
+export function hasPreprocessing(options: PreprocessOptions): boolean {
+  return options.grayscale || options.contrast || options.threshold ||
+    options.invertDark || options.upscale || options.crop !== null
+}
+
+function getLuminance(data: Uint8ClampedArray, index: number): number {
+  return 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2]
+}
+
+// 亮度直方图的百分位，用于对比度拉伸时忽略少量极端像素
+function getPercentile(histogram: number[], total: number, ratio: number): number {
+  let count = 0
+  for (let value = 0; value < 256; value++) {
+    count += histogram[value]
+    if (count >= total * ratio) return value
+  }
+  return 255
+}
+
+// Otsu 法求二值化阈值
+function getOtsuThreshold(histogram: number[], total: number): number {
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0)
+  let sumBackground = 0
+  let weightBackground = 0
+  let best = 0
+  let threshold = 128
+  for (let value = 0; value < 256; value++) {
+    weightBackground += histogram[value]
+    if (weightBackground === 0) continue
+    const weightForeground = total - weightBackground
+    if (weightForeground === 0) break
+    sumBackground += value * histogram[value]
+    const meanBackground = sumBackground / weightBackground
+    const meanForeground = (sum - sumBackground) / weightForeground
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2
+    if (variance > best) {
+      best = variance
+      threshold = value
+    }
+  }
+  return threshold
+}
+
+// 逐像素处理：反色 → 灰度 → 对比度拉伸 → 二值化
+export function applyPixelFilters(image: ImageData, options: PreprocessOptions): void {
+  const { data } = image
+  const total = data.length / 4
+  if (total === 0) return
+
+  if (options.invertDark) {
+    let sum = 0
+    for (let i = 0; i < data.length; i += 4) sum += getLuminance(data, i)
+    if (sum / total < DARK_THEME_LUMINANCE) {
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = 255 - data[i]
+        data[i + 1] = 255 - data[i + 1]
+        data[i + 2] = 255 - data[i + 2]
+      }
+    }
+  }
+
+  // 对比度和二值化都基于亮度，开启任一项时也会转为灰度
+  if (!options.grayscale && !options.contrast && !options.threshold) return
+  for (let i = 0; i < data.length; i += 4) {
+    const value = Math.round(getLuminance(data, i))
+    data[i] = value
+    data[i + 1] = value
+    data[i + 2] = value
+  }
+
+  const histogram = new Array<number>(256).fill(0)
+  if (options.contrast || options.threshold) {
+    for (let i = 0; i < data.length; i += 4) histogram[data[i]]++
+  }
+
+  if (options.contrast) {
+    const low = getPercentile(histogram, total, 0.02)
+    const high = getPercentile(histogram, total, 0.98)
+    if (high > low) {
+      const scale = 255 / (high - low)
+      histogram.fill(0)
+      for (let i = 0; i < data.length; i += 4) {
+        const value = Math.max(0, Math.min(255, Math.round((data[i] - low) * scale)))
+        data[i] = value
+        data[i + 1] = value
+        data[i + 2] = value
+        histogram[value]++
+      }
+    }
+  }
+
+  if (options.threshold) {
+    const threshold = getOtsuThreshold(histogram, total)
+    for (let i = 0; i < data.length; i += 4) {
+      const value = data[i] > threshold ? 255 : 0
+      data[i] = value
+      data[i + 1] = value
+      data[i + 2] = value
+    }
+  }
+}
+
+/**
+ * 按选项处理图片，返回 PNG
+ * 先裁剪和放大，再做像素级处理
+ */
+export async function preprocessImage(image: Blob, options: PreprocessOptions): Promise<Blob> {
+  const bitmap = await createImageBitmap(image)
+  try {
+    const crop = options.crop ?? { x: 0, y: 0, width: 1, height: 1 }
+    const sourceX = Math.round(crop.x * bitmap.width)
+    const sourceY = Math.round(crop.y * bitmap.height)
+    const sourceWidth = Math.max(1, Math.round(crop.width * bitmap.width))
+    const sourceHeight = Math.max(1, Math.round(crop.height * bitmap.height))
+    const scale = options.upscale && sourceWidth < UPSCALE_TARGET_WIDTH
+      ? Math.min(MAX_UPSCALE, UPSCALE_TARGET_WIDTH / sourceWidth)
+      : 1
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(sourceWidth * scale)
+    canvas.height = Math.round(sourceHeight * scale)
+    const context = canvas.getContext('2d', { willReadFrequently: true })
+    if (!context) throw new Error('canvas unavailable')
+    context.imageSmoothingQuality = 'high'
+    context.drawImage(bitmap, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height)
+
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height)
+    applyPixelFilters(pixels, options)
+    context.putImageData(pixels, 0, 0)
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('canvas export failed'))), 'image/png')
+    })
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { loadLeaves, loadLeaveQuotas } from './leaveUtils'
+import { getProfileStorageKey } from './profileUtils'
+
+describe('假期数据读取', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('丢弃格式不对的请假记录，不是数组时返回空列表', () => {
+    const valid = { id: 'a', date: '2025-03-03', type: 'annual', duration: 'full', createdAt: '2025-03-01T00:00:00.000Z' }
+    localStorage.setItem(getProfileStorageKey('leaveRecords', 'p1'), JSON.stringify([
+      valid,
+      { ...valid, id: 'b', type: 'vacation' },
+      { ...valid, id: 'c', date: '3/3' },
+      null
+    ]))
+    expect(loadLeaves('p1')).toEqual([valid])
+
+    localStorage.setItem(getProfileStorageKey('leaveRecords', 'p1'), JSON.stringify({ id: 'a' }))
+    expect(loadLeaves('p1')).toEqual([])
+  })
+
+  it('只保留已知类型的非负额度，不是对象时返回空额度', () => {
+    localStorage.setItem(getProfileStorageKey('leaveQuotas', 'p1'), JSON.stringify({
+      annual: 5,
+      sick: -1,
+      personal: '3',
+      unknown: 2
+    }))
+    expect(loadLeaveQuotas('p1')).toEqual({ annual: 5 })
+
+    localStorage.setItem(getProfileStorageKey('leaveQuotas', 'p1'), JSON.stringify([5]))
+    expect(loadLeaveQuotas('p1')).toEqual({})
+  })
+})
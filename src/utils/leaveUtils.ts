@@ -0,0 +1,149 @@
+import { format, parse } from 'date-fns'
+import { isRestDay } from './timeUtils'
+import { WorkSettings, DEFAULT_WORK_SETTINGS } from './settingsUtils'
+import { getProfileStorageKey, loadActiveProfileId } from './profileUtils'
+
+// 假期类型：annual=年假, sick=病假, personal=事假, compensatory=调休, businessTrip=出差
+export type LeaveType = 'annual' | 'sick' | 'personal' | 'compensatory' | 'businessTrip'
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  annual: '年假',
+  sick: '病假',
+  personal: '事假',
+  compensatory: '调休',
+  businessTrip: '出差'
+}
+
+// 请假时长：全天或半天
+export type LeaveDuration = 'full' | 'morning' | 'afternoon'
+
+export const LEAVE_DURATION_LABELS: Record<LeaveDuration, string> = {
+  full: '全天',
+  morning: '上午',
+  afternoon: '下午'
+}
+
+export interface LeaveRecord {
+  id: string
+  date: string // YYYY-MM-DD
+  type: LeaveType
+  duration: LeaveDuration
+  note?: string
+  createdAt: string // ISO 时间
+}
+
+// 每年可用天数，未设置的类型不限额
+export type LeaveQuotas = Partial<Record<LeaveType, number>>
+
+// 假期余额
+export interface LeaveBalance {
+  type: LeaveType
+  quota: number | null
+  used: number
+  remaining: number | null
+}
+
+export function getLeaveDays(leave: Pick<LeaveRecord, 'duration'>): number {
+  return leave.duration === 'full' ? 1 : 0.5
+}
+
+// 某月的请假记录（按日期排序）
+export function filterMonthLeaves(leaves: LeaveRecord[], month: Date): LeaveRecord[] {
+  const prefix = format(month, 'yyyy-MM')
+  return leaves
+    .filter(leave => leave.date.startsWith(prefix))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * 按日期汇总可抵扣的请假天数
+ * 只有工时规则中设为抵扣的假期类型、且落在工作日的请假才计入，同一天最多 1 天
+ */
+export function getExemptLeaveDaysByDate(
+  leaves: LeaveRecord[],
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): Map<string, number> {
+  const byDate = new Map<string, number>()
+  leaves.forEach(leave => {
+    if (!settings.leaveExemptTypes.includes(leave.type) || isRestDay(leave.date)) return
+    byDate.set(leave.date, Math.min(1, (byDate.get(leave.date) ?? 0) + getLeaveDays(leave)))
+  })
+  return byDate
+}
+
+// 当月可抵扣的请假天数，用于减少应出勤工作日和应加班时长
+export function getMonthExemptLeaveDays(
+  leaves: LeaveRecord[],
+  month: Date,
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): number {
+  const byDate = getExemptLeaveDaysByDate(filterMonthLeaves(leaves, month), settings)
+  return Array.from(byDate.values()).reduce((sum, days) => sum + days, 0)
+}
+
+// 某年各类假期的已用天数与余额（休息日的请假不占用额度）
+export function getLeaveBalances(leaves: LeaveRecord[], quotas: LeaveQuotas, year: number): LeaveBalance[] {
+  return (Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map(type => {
+    const used = leaves
+      .filter(leave =>
+        leave.type === type &&
+        parse(leave.date, 'yyyy-MM-dd', new Date()).getFullYear() === year &&
+        !isRestDay(leave.date)
+      )
+      .reduce((sum, leave) => sum + getLeaveDays(leave), 0)
+    const quota = quotas[type] ?? null
+    return { type, quota, used, remaining: quota === null ? null : quota - used }
+  })
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isLeaveRecord(value: unknown): value is LeaveRecord {
+  if (!value || typeof value !== 'object') return false
+  const leave = value as Record<string, unknown>
+  return typeof leave.id === 'string' && leave.id !== '' &&
+    typeof leave.date === 'string' && DATE_PATTERN.test(leave.date) &&
+    typeof leave.type === 'string' && Object.keys(LEAVE_TYPE_LABELS).includes(leave.type) &&
+    typeof leave.duration === 'string' && Object.keys(LEAVE_DURATION_LABELS).includes(leave.duration) &&
+    (leave.note === undefined || typeof leave.note === 'string') &&
+    typeof leave.createdAt === 'string'
+}
+
+// 只保留已知假期类型、且额度为非负数的项
+function sanitizeLeaveQuotas(value: Record<string, unknown>): LeaveQuotas {
+  const quotas: LeaveQuotas = {}
+  for (const type of Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]) {
+    const quota = value[type]
+    if (typeof quota === 'number' && Number.isFinite(quota) && quota >= 0) quotas[type] = quota
+  }
+  return quotas
+}
+
+// 本地存储（按档案区分），读取时丢弃格式不对的数据
+export function saveLeaves(leaves: LeaveRecord[], profileId: string = loadActiveProfileId()): void {
+  localStorage.setItem(getProfileStorageKey('leaveRecords', profileId), JSON.stringify(leaves))
+}
+
+export function loadLeaves(profileId: string = loadActiveProfileId()): LeaveRecord[] {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(getProfileStorageKey('leaveRecords', profileId)) ?? '[]')
+    return Array.isArray(data) ? data.filter(isLeaveRecord) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveLeaveQuotas(quotas: LeaveQuotas, profileId: string = loadActiveProfileId()): void {
+  localStorage.setItem(getProfileStorageKey('leaveQuotas', profileId), JSON.stringify(quotas))
+}
+
+export function loadLeaveQuotas(profileId: string = loadActiveProfileId()): LeaveQuotas {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(getProfileStorageKey('leaveQuotas', profileId)) ?? '{}')
+    return data && typeof data === 'object' && !Array.isArray(data)
+      ? sanitizeLeaveQuotas(data as Record<string, unknown>)
+      : {}
+  } catch {
+    return {}
+  }
+}
@@ -0,0 +1,259 @@
+import type { Worker, ImageLike, LoggerMessage } from 'tesseract.js'
+
+// 共享的 OCR 服务：复用已加载语言模型的 worker，限制同时识别的数量
+
+export type OcrStage = 'queued' | 'loading' | 'recognizing'
+
+export interface OcrProgress {
+  stage: OcrStage
+  progress: number | null // 0-100，当前阶段没有进度时为 null
+}
+
+export interface OcrJobOptions {
+  signal?: AbortSignal
+  timeoutMs?: number // 识别本身的超时，不含排队和加载模型的时间
+  onProgress?: (progress: OcrProgress) => void
+}
+
+// 识别出的单词及其在图片中的位置（像素，相对识别所用的图片）
+export interface OcrWord {
+  text: string
+  confidence: number
+  bbox: { x0: number; y0: number; x1: number; y1: number }
+}
+
+export interface OcrResult {
+  text: string
+  language: string // 实际使用的语言模型
+  words: OcrWord[]
+}
+
+// 各阶段的提示文字
+export const OCR_STAGE_LABELS: Record<OcrStage, string> = {
+  queued: '排队等待识别...',
+  loading: '正在加载 OCR 引擎...',
+  recognizing: '识别中...'
+}
+
+// 语言模型的显示名称
+export const OCR_LANGUAGE_LABELS: Record<string, string> = {
+  'chi_sim+eng': '中文 + 英文',
+  eng: '仅英文'
+}
+
+// 识别失败的原因：超时、被取消、其他错误
+export type OcrErrorKind = 'timeout' | 'cancelled' | 'failed'
+
+const MAX_POOL_SIZE = 3
+const RECOGNIZE_TIMEOUT_MS = 45000
+const CREATE_TIMEOUT_MS = 35000
+// 空闲一段时间后释放全部 worker，语言模型占用内存较多
+const IDLE_TIMEOUT_MS = 60000
+
+// worker、识别核心和语言模型都从应用自身的资源加载（见 vite.config.ts），不依赖 CDN
+function getAssetOptions() {
+  const base = new URL(`${import.meta.env.BASE_URL}tesseract/`, window.location.href).href
+  return {
+    workerPath: `${base}worker.min.js`,
+    corePath: `${base}core`,
+    langPath: `${base}lang`,
+    workerBlobURL: false
+  }
+}
+
+interface PoolWorker {
+  ready: Promise<Worker>
+  language: string
+  busy: boolean
+  onProgress?: (progress: OcrProgress) => void
+}
+
+interface OcrJob {
+  image: ImageLike
+  options: OcrJobOptions
+  resolve: (result: OcrResult) => void
+  reject: (error: Error) => void
+  interrupt?: (error: Error) => void // 识别进行中时中断
+  cleanup: () => void
+}
+
+const pool: PoolWorker[] = []
+const queue: OcrJob[] = []
+let idleTimer: ReturnType<typeof setTimeout> | undefined
+
+export function getOcrErrorKind(error: unknown): OcrErrorKind {
+  if (error instanceof Error && (error.message === 'timeout' || error.message === 'cancelled')) {
+    return error.message
+  }
+  return 'failed'
+}
+
+function getPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1))
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('timeout')), timeoutMs)
+    promise
+      .then(result => {
+        clearTimeout(timer)
+        resolve(result)
+      })
+      .catch(error => {
+        clearTimeout(timer)
+        reject(error)
+      })
+  })
+}
+
+function toProgress(message: LoggerMessage): OcrProgress {
+  return message.status === 'recognizing text'
+    ? { stage: 'recognizing', progress: Math.round(message.progress * 100) }
+    : { stage: 'loading', progress: typeof message.progress === 'number' ? Math.round(message.progress * 100) : null }
+}
+
+// 创建 worker 并加载中英文模型；中文模型加载失败时退回英文，并通过 OcrResult.language 告知调用方
+async function createPoolWorker(slot: PoolWorker): Promise<Worker> {
+  const { createWorker } = await import('tesseract.js')
+  const logger = (message: LoggerMessage) => slot.onProgress?.(toProgress(message))
+
+  const create = async (language: string, timeoutMs: number) => {
+    slot.language = language
+    const pending = createWorker(language, 1, { ...getAssetOptions(), logger })
+    try {
+      return await withTimeout(pending, timeoutMs)
+    } catch (error) {
+      // 超时后才创建成功的 worker 也要释放
+      pending.then(worker => worker.terminate()).catch(() => {})
+      throw error
+    }
+  }
+
+  try {
+    return await create('chi_sim+eng', CREATE_TIMEOUT_MS)
+  } catch {
+    return create('eng', CREATE_TIMEOUT_MS)
+  }
+}
+
+function addWorker(): PoolWorker {
+  const slot = { language: '', busy: false } as PoolWorker
+  slot.ready = createPoolWorker(slot)
+  // 加载失败由使用它的任务处理，这里避免未处理的 rejection
+  slot.ready.catch(() => {})
+  pool.push(slot)
+  return slot
+}
+
+function discardWorker(slot: PoolWorker): void {
+  const index = pool.indexOf(slot)
+  if (index >= 0) pool.splice(index, 1)
+  slot.ready.then(worker => worker.terminate()).catch(() => {})
+}
+
+function scheduleIdleShutdown(): void {
+  clearTimeout(idleTimer)
+  if (queue.length > 0 || pool.some(slot => slot.busy)) return
+  idleTimer = setTimeout(terminateOcrWorkers, IDLE_TIMEOUT_MS)
+}
+
+async function runJob(slot: PoolWorker, job: OcrJob): Promise<void> {
+  slot.busy = true
+  slot.onProgress = job.options.onProgress
+  job.options.onProgress?.({ stage: 'loading', progress: null })
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  try {
+    const result = await new Promise<OcrResult>((resolve, reject) => {
+      job.interrupt = reject
+      slot.ready
+        .then(worker => {
+          timer = setTimeout(() => reject(new Error('timeout')), job.options.timeoutMs ?? RECOGNIZE_TIMEOUT_MS)
+          return worker.recognize(job.image)
+        })
+        .then(({ data }) => resolve({
+          text: data?.text ?? '',
+          language: slot.language,
+          words: (data?.words ?? []).map(word => ({ text: word.text, confidence: word.confidence, bbox: word.bbox }))
+        }))
+        .catch(reject)
+    })
+    job.resolve(result)
+  } catch (error) {
+    // 超时或取消时 worker 可能仍在识别，直接丢弃，之后按需重建
+    discardWorker(slot)
+    job.reject(error instanceof Error ? error : new Error('failed'))
+  } finally {
+    clearTimeout(timer)
+    job.cleanup()
+    slot.busy = false
+    slot.onProgress = undefined
+    pump()
+  }
+}
+
+// 把排队的任务分配给空闲 worker，必要时创建新 worker
+function pump(): void {
+  while (queue.length > 0) {
+    let slot = pool.find(item => !item.busy)
+    if (!slot) {
+      if (pool.length >= getPoolSize()) break
+      slot = addWorker()
+    }
+    runJob(slot, queue.shift()!)
+  }
+  scheduleIdleShutdown()
+}
+
+/**
+ * 识别一张图片
+ * 任务先排队，由共享的 worker 依次处理；通过 signal 可取消排队中或进行中的任务
+ */
+export function recognizeImage(image: ImageLike, options: OcrJobOptions = {}): Promise<OcrResult> {
+  return new Promise<OcrResult>((resolve, reject) => {
+    const { signal } = options
+    if (signal?.aborted) {
+      reject(new Error('cancelled'))
+      return
+    }
+
+    const job: OcrJob = {
+      image,
+      options,
+      resolve,
+      reject,
+      cleanup: () => signal?.removeEventListener('abort', handleAbort)
+    }
+    function handleAbort() {
+      const index = queue.indexOf(job)
+      if (index >= 0) {
+        queue.splice(index, 1)
+        job.cleanup()
+        reject(new Error('cancelled'))
+      } else {
+        job.interrupt?.(new Error('cancelled'))
+      }
+    }
+    signal?.addEventListener('abort', handleAbort)
+
+    queue.push(job)
+    options.onProgress?.({ stage: 'queued', progress: null })
+    pump()
+  })
+}
+
+// 提前创建 worker 并加载语言模型，减少第一次识别的等待
+export function warmUpOcrWorkers(count = 1): void {
+  while (pool.length < Math.min(count, getPoolSize())) {
+    addWorker()
+  }
+  scheduleIdleShutdown()
+}
+
+// 释放全部空闲 worker（进行中的任务不受影响）
+export function terminateOcrWorkers(): void {
+  clearTimeout(idleTimer)
+  pool.filter(slot => !slot.busy).forEach(discardWorker)
+}
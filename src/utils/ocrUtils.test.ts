@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { parseDingTalkText, parseDingTalkStatsText, isPairingComplete, PunchTime } from './ocrUtils'
+
+const REFERENCE_DATE = new Date(2025, 2, 10)
+
+describe('parseDingTalkText', () => {
+  it('按打卡标签取上下班时间，忽略状态栏和班次时间', () => {
+    const parsed = parseDingTalkText([
+      '9:41 5G 80%',
+      '2025年3月3日 星期一',
+      '班次 09:00-18:00',
+      '上班打卡 08:52 正常',
+      '下班打卡 20:15 正常'
+    ].join('\n'), REFERENCE_DATE)
+    expect(parsed.date).toBe('2025-03-03')
+    expect(parsed.segments).toEqual([{ startTime: '08:52', endTime: '20:15', startsNextDay: false, endsNextDay: false }])
+    expect(parsed.isValid).toBe(true)
+  })
+
+  it('识别“次日”下班打卡', () => {
+    const parsed = parseDingTalkText([
+      '2025年3月3日',
+      '上班打卡 19:00 正常',
+      '下班打卡 次日 02:10 正常'
+    ].join('\n'), REFERENCE_DATE)
+    expect(parsed.endsNextDay).toBe(true)
+    expect(parsed.segments[0]).toMatchObject({ startTime: '19:00', endTime: '02:10', endsNextDay: true })
+  })
+
+  it('记录迟到和缺卡状态', () => {
+    const parsed = parseDingTalkText([
+      '2025年3月4日',
+      '上班打卡 09:20 迟到',
+      '下班 18:00 缺卡'
+    ].join('\n'), REFERENCE_DATE)
+    expect(parsed.statuses).toEqual(expect.arrayContaining(['late', 'missed']))
+  })
+})
+
+describe('parseDingTalkStatsText', () => {
+  it('按传入的工作日天数重新计算平均工时', () => {
+    const stats = parseDingTalkStatsText('2025年3月 10.5 平均工时 22 出勤天数 9 休息天数', 21)
+    expect(stats).toMatchObject({ year: 2025, month: 3, avgHours: 10.5, attendanceDays: 22, restDays: 9, workdays: 21 })
+    expect(stats.totalHours).toBeCloseTo(231)
+    expect(stats.correctAvgHours).toBeCloseTo(11)
+    expect(stats.weekendWorkDays).toBe(1)
+  })
+
+  it('缺少平均工时时标记为无效', () => {
+    const stats = parseDingTalkStatsText('22 出勤天数', 21)
+    expect(stats.isValid).toBe(false)
+    expect(stats.warnings).toContain('未识别到平均工时')
+  })
+})
+
+describe('isPairingComplete', () => {
+  const punch = (time: string): PunchTime => ({ time, nextDay: false, label: '', role: null, status: null, confidence: 1 })
+  const punches = [punch('09:00'), punch('12:00'), punch('13:00'), punch('18:00')]
+
+  it('每个时段两端都对应打卡时完成', () => {
+    expect(isPairingComplete(punches, [
+      { startTime: '09:00', endTime: '12:00' },
+      { startTime: '13:00', endTime: '18:00' }
+    ])).toBe(true)
+  })
+
+  it('有一端未配对或没有时段时未完成', () => {
+    expect(isPairingComplete(punches, [
+      { startTime: '09:00', endTime: '12:00' },
+      { startTime: '13:00', endTime: '' }
+    ])).toBe(false)
+    expect(isPairingComplete(punches, [])).toBe(false)
+  })
+})
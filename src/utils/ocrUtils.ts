@@ -1,8 +1,14 @@
+import { PunchStatus, PUNCH_STATUS_LABELS, type WorkSegment } from './timeUtils'
+
 export interface ParsedDingTalkRecord {
   date: string
   startTime: string
   endTime: string
+  endsNextDay: boolean // 下班打卡是否为“次日”
   times: string[]
+  punches: PunchTime[] // 识别到的全部打卡（按时间先后）
+  segments: WorkSegment[] // 打卡配对后的工作时段，可在识别结果中调整
+  statuses: PunchStatus[] // 钉钉显示的异常状态（迟到、早退、缺卡、补卡）
   isValid: boolean
   warnings: string[]
 }
@@ -22,6 +28,23 @@ export interface ParsedDingTalkStats {
   warnings: string[]
 }
 
+// 钉钉月度考勤（月历或明细列表）中某一天的识别结果
+export interface ParsedDingTalkMonthDay {
+  date: string
+  punches: PunchTime[]
+  segments: WorkSegment[]
+  statuses: PunchStatus[]
+  isValid: boolean
+  warnings: string[]
+}
+
+export interface ParsedDingTalkMonth {
+  year: number
+  month: number
+  days: ParsedDingTalkMonthDay[] // 按日期排序
+  warnings: string[]
+}
+
 const REPLACEMENTS: Record<string, string> = {
   O: '0',
   o: '0',
@@ -77,56 +100,368 @@ function extractDate(text: string, fallback: Date): { date: string; warning?: st
   return { date: formatDateYMD(fallback.getFullYear(), fallback.getMonth() + 1, fallback.getDate()), warning: '未识别到日期，已使用今天日期。' }
 }
 
-function extractTimes(text: string): string[] {
-  const results: string[] = []
-  const timeRegex = /([0-2OQDoIl!|SBZ]{1,2})\s*[:：.\-]\s*([0-5OQDoIl!|SBZ]{1,2})/g
+// 打卡对应上班还是下班
+export type PunchRole = 'start' | 'end'
+
+// 打卡时间点，nextDay 表示钉钉标注为“次日”的打卡
+export interface PunchTime {
+  time: string
+  nextDay: boolean
+  label: string // 识别依据的钉钉标签，如“上班打卡”“打卡时间”；没有标签时为空
+  role: PunchRole | null
+  status: PunchStatus | 'normal' | null // 同一行或下一行的打卡状态
+  confidence: number // 0-1，越高越可能是真实的打卡时间
+}
+
+const NEXT_DAY_PATTERN = /次\s*日/
+
+// 判断时间前后是否紧挨着“次日”标记，如“次日 02:00”或“02:00(次日)”
+function isNextDayPunch(text: string, start: number, end: number): boolean {
+  const before = text.slice(Math.max(0, start - 4), start)
+  const after = text.slice(end, end + 4)
+  return NEXT_DAY_PATTERN.test(before) || NEXT_DAY_PATTERN.test(after)
+}
+
+const STATUS_PATTERNS: [RegExp, PunchStatus | 'normal'][] = [
+  [/迟\s*到/, 'late'],
+  [/早\s*退/, 'early'],
+  [/缺\s*卡/, 'missed'],
+  [/补\s*卡/, 'makeup'],
+  [/正\s*常/, 'normal']
+]
+
+// 考勤规则、班次、审批记录等行里的时间不是打卡时间
+const IGNORED_LINE_PATTERN = /规则|班次|审批|申请|提交|发起|抄送|通过/
+const TIME_RANGE_PATTERN = /\d{1,2}\s*[:：]\s*\d{2}\s*[-~～至—]+\s*\d{1,2}\s*[:：]\s*\d{2}/
+const DATE_IN_LINE_PATTERN = /\d{4}\s*[年\/\-.]\s*\d{1,2}\s*[月\/\-.]\s*\d{1,2}\s*日?|\d{1,2}\s*月\s*\d{1,2}\s*日/g
+
+const STATUS_BAR_PATTERN = /\d+\s*%|[45]G|LTE|Wi-?Fi/i
+
+// 高于此置信度的打卡视为带标签的可靠结果
+const LABELED_CONFIDENCE = 0.6
+// 低于此置信度的时间（状态栏时钟、规则、审批时间）不作为打卡
+const MIN_CONFIDENCE = 0.3
+
+function findStatus(line: string): PunchStatus | 'normal' | null {
+  return STATUS_PATTERNS.find(([pattern]) => pattern.test(line))?.[1] ?? null
+}
+
+function findRole(line: string): PunchRole | null {
+  const isStart = /上\s*班/.test(line)
+  const isEnd = /下\s*班/.test(line)
+  if (isStart === isEnd) return null
+  return isStart ? 'start' : 'end'
+}
+
+function extractLineTimes(line: string): { time: string; nextDay: boolean }[] {
+  const results: { time: string; nextDay: boolean }[] = []
+  const timeRegex = /([0-2OQDoIl!|SBZ]?[0-9OQDoIl!|SBZ])\s*[:：.\-]\s*([0-5OQDoIl!|SBZ][0-9OQDoIl!|SBZ])/g
   let match: RegExpExecArray | null
 
-  while ((match = timeRegex.exec(text)) !== null) {
+  while ((match = timeRegex.exec(line)) !== null) {
     const hoursRaw = normalizeDigits(match[1])
     const minutesRaw = normalizeDigits(match[2])
     const hours = Number(hoursRaw)
     const minutes = Number(minutesRaw)
     if (!Number.isNaN(hours) && !Number.isNaN(minutes) && hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59) {
-      results.push(`${padTwo(hours)}:${padTwo(minutes)}`)
+      results.push({
+        time: `${padTwo(hours)}:${padTwo(minutes)}`,
+        nextDay: isNextDayPunch(line, match.index, match.index + match[0].length)
+      })
     }
   }
 
   return results
 }
 
+const PUNCH_STATUS_TEXT: Record<PunchStatus | 'normal', string> = {
+  normal: '正常',
+  ...PUNCH_STATUS_LABELS
+}
+
+// 根据所在行的标签判断时间的含义和置信度
+function classifyLine(line: string, isStatusBar: boolean, hasDate: boolean): { label: string; confidence: number } {
+  if (IGNORED_LINE_PATTERN.test(line) || TIME_RANGE_PATTERN.test(line)) return { label: '', confidence: 0.1 }
+  if (/上\s*班\s*打\s*卡/.test(line)) return { label: '上班打卡', confidence: 0.95 }
+  if (/下\s*班\s*打\s*卡/.test(line)) return { label: '下班打卡', confidence: 0.95 }
+  if (/打\s*卡\s*时\s*间/.test(line)) return { label: '打卡时间', confidence: 0.9 }
+  if (/补\s*卡/.test(line)) return { label: '补卡', confidence: 0.8 }
+  if (hasDate) return { label: '', confidence: 0.2 }
+
+  const role = findRole(line)
+  const status = findStatus(line)
+  if (role) {
+    // “上班 09:00”可能是班次时间，带状态时才是打卡结果
+    return { label: role === 'start' ? '上班' : '下班', confidence: status ? 0.85 : 0.5 }
+  }
+  if (status) return { label: PUNCH_STATUS_TEXT[status], confidence: 0.7 }
+  if (isStatusBar) return { label: '', confidence: 0.15 }
+  return { label: '', confidence: 0.4 }
+}
+
+/**
+ * 逐行提取打卡时间：以钉钉的“上班打卡”“下班打卡”“打卡时间”等标签定位，
+ * 状态（正常、迟到、早退、缺卡、补卡）取同一行或紧接着的下一行
+ * 没有时间的“缺卡”单独返回
+ */
+function extractPunches(text: string): { punches: PunchTime[]; missedRoles: (PunchRole | null)[] } {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  const punches: PunchTime[] = []
+  const missedRoles: (PunchRole | null)[] = []
+  let currentRole: PunchRole | null = null
+  let lastLinePunches: PunchTime[] = []
+  const timeLineCount = lines.filter(line => extractLineTimes(line).length > 0).length
+
+  lines.forEach((line, lineIndex) => {
+    const lineRole = findRole(line)
+    if (lineRole) currentRole = lineRole
+
+    const withoutDates = line.replace(DATE_IN_LINE_PATTERN, ' ')
+    const times = extractLineTimes(withoutDates)
+    const status = findStatus(line)
+
+    // 缺卡行里的时间是班次时间，不是打卡
+    if (status === 'missed') {
+      missedRoles.push(currentRole)
+      lastLinePunches = []
+      return
+    }
+
+    if (times.length === 0) {
+      // 状态单独一行时归到上一行的打卡，“上班 08:52 / 正常”这种排版由此确认是打卡结果
+      if (status && lastLinePunches.length > 0 && lastLinePunches.every(punch => punch.status === null)) {
+        lastLinePunches.forEach(punch => {
+          punch.status = status
+          if (punch.label === '上班' || punch.label === '下班') punch.confidence = 0.85
+        })
+      }
+      lastLinePunches = []
+      return
+    }
+
+    // 手机状态栏：首行带电量、信号标记，或首行只有时间且后面还有多行时间
+    const isStatusBar = lineIndex === 0 && (
+      STATUS_BAR_PATTERN.test(line) || (!/[\u4e00-\u9fa5]/.test(line) && timeLineCount >= 3)
+    )
+    const { label, confidence } = classifyLine(line, isStatusBar, withoutDates !== line)
+    lastLinePunches = times.map(time => ({
+      ...time,
+      label,
+      role: label === '' ? null : currentRole,
+      status,
+      confidence
+    }))
+    punches.push(...lastLinePunches)
+  })
+
+  return { punches, missedRoles }
+}
+
+// 把两次打卡组成一个工作时段
+export function punchesToSegment(start: PunchTime, end: PunchTime): WorkSegment {
+  return {
+    startTime: start.time,
+    endTime: end.time,
+    startsNextDay: start.nextDay,
+    endsNextDay: end.nextDay || punchToMinutes(end) < punchToMinutes(start)
+  }
+}
+
+// 时间在打卡列表中的位置，优先匹配次日标记；找不到（未配对）时返回 -1
+export function findPunchIndex(punches: PunchTime[], time: string, nextDay?: boolean): number {
+  const index = punches.findIndex(punch => punch.time === time && punch.nextDay === Boolean(nextDay))
+  return index >= 0 ? index : punches.findIndex(punch => punch.time === time)
+}
+
+// 每个时段的上下班都选定了识别出的打卡，才算配对完成
+export function isPairingComplete(punches: PunchTime[], segments: WorkSegment[]): boolean {
+  return segments.length > 0 && segments.every(segment =>
+    findPunchIndex(punches, segment.startTime, segment.startsNextDay) >= 0 &&
+    findPunchIndex(punches, segment.endTime, segment.endsNextDay) >= 0
+  )
+}
+
+// 默认配对：偶数个打卡按顺序两两配对，否则取最早和最晚
+function pairPunches(punches: PunchTime[]): WorkSegment[] {
+  if (punches.length < 2) return []
+  if (punches.length % 2 === 1) {
+    return [punchesToSegment(punches[0], punches[punches.length - 1])]
+  }
+  const segments: WorkSegment[] = []
+  for (let i = 0; i < punches.length; i += 2) {
+    segments.push(punchesToSegment(punches[i], punches[i + 1]))
+  }
+  return segments
+}
+
+// 打卡时间换算为分钟，次日打卡顺延 24 小时
+function punchToMinutes(punch: PunchTime): number {
+  const [hours, minutes] = punch.time.split(':').map(Number)
+  return hours * 60 + minutes + (punch.nextDay ? 24 * 60 : 0)
+}
+
 export function parseDingTalkText(text: string, referenceDate = new Date()): ParsedDingTalkRecord {
   const warnings: string[] = []
   const { date, warning } = extractDate(text, referenceDate)
   if (warning) warnings.push(warning)
 
-  const times = extractTimes(text)
-  const uniqueTimes = Array.from(new Set(times))
-  uniqueTimes.sort((a, b) => {
-    const [aH, aM] = a.split(':').map(Number)
-    const [bH, bM] = b.split(':').map(Number)
-    return aH * 60 + aM - (bH * 60 + bM)
+  const { punches, missedRoles } = extractPunches(text)
+  // 有带标签的打卡时只用这些；否则退回到按时间先后推断，但排除状态栏、规则等时间
+  const labeled = punches.filter(punch => punch.confidence >= LABELED_CONFIDENCE)
+  const candidates = labeled.length > 0 ? labeled : punches.filter(punch => punch.confidence >= MIN_CONFIDENCE)
+  if (labeled.length === 0 && candidates.length > 0) {
+    warnings.push('未识别到打卡标签，已按时间先后推断，请确认。')
+  }
+
+  // 同一时间出现多次时保留置信度最高的一次
+  const byTime = new Map<string, PunchTime>()
+  candidates.forEach(punch => {
+    const key = `${punch.nextDay ? '+' : ''}${punch.time}`
+    const existing = byTime.get(key)
+    if (!existing || punch.confidence > existing.confidence) byTime.set(key, punch)
   })
+  const uniquePunches = Array.from(byTime.values())
+  uniquePunches.sort((a, b) => punchToMinutes(a) - punchToMinutes(b))
 
-  if (uniqueTimes.length === 0) {
+  if (uniquePunches.length === 0) {
     warnings.push('未识别到有效打卡时间，请手动输入。')
-  } else if (uniqueTimes.length === 1) {
+  } else if (uniquePunches.length === 1) {
     warnings.push('只识别到一个时间点，请确认上下班时间。')
   }
 
-  const startTime = uniqueTimes[0] ?? ''
-  const endTime = uniqueTimes.length > 1 ? uniqueTimes[uniqueTimes.length - 1] : ''
+  const first = uniquePunches[0]
+  const last = uniquePunches.length > 1 ? uniquePunches[uniquePunches.length - 1] : undefined
+  const startTime = first?.time ?? ''
+  const endTime = last?.time ?? ''
+  const endsNextDay = Boolean(last?.nextDay)
+
+  if (first?.nextDay) {
+    warnings.push('最早的打卡标记为次日，请确认上班时间。')
+  }
+  if (last && (first.role === 'end' || last.role === 'start')) {
+    warnings.push('上下班标签与时间先后不一致，请确认工作时段。')
+  }
+  if (uniquePunches.length > 2) {
+    warnings.push(
+      uniquePunches.length % 2 === 0
+        ? '识别到多次打卡，已按顺序两两配对，请确认工作时段。'
+        : '识别到奇数次打卡，已按最早和最晚配对，请确认工作时段。'
+    )
+  }
+
+  const statuses = new Set<PunchStatus>()
+  uniquePunches.forEach(punch => {
+    if (punch.status && punch.status !== 'normal') statuses.add(punch.status)
+  })
+  if (missedRoles.length > 0) {
+    statuses.add('missed')
+    const roles = missedRoles.map(role => (role === 'start' ? '上班' : role === 'end' ? '下班' : '')).filter(Boolean)
+    warnings.push(`钉钉显示${roles.length > 0 ? roles.join('、') : ''}缺卡，请确认上下班时间。`)
+  }
+
+  const segments = pairPunches(uniquePunches)
 
   return {
     date,
     startTime,
     endTime,
-    times: uniqueTimes,
-    isValid: Boolean(startTime && endTime),
+    endsNextDay,
+    times: uniquePunches.map(punch => (punch.nextDay ? `次日${punch.time}` : punch.time)),
+    punches: uniquePunches,
+    segments,
+    statuses: Array.from(statuses),
+    isValid: segments.length > 0,
     warnings
   }
 }
 
+// 识别结果中可手动修正的字段
+export type OcrField = 'date' | 'start' | 'end'
+
+const DATE_FRAGMENT_PATTERN = /(\d{4})\s*[年\/\-.]|(\d{1,2})\s*月|(\d{1,2})\s*日/g
+
+// 单词中的日期片段（年、月、日）是否都与识别出的日期一致
+function matchesDate(text: string, date: string): boolean {
+  const [year, month, day] = date.split('-').map(Number)
+  const normalized = normalizeDigits(text)
+  let matched = false
+  let match: RegExpExecArray | null
+  DATE_FRAGMENT_PATTERN.lastIndex = 0
+  while ((match = DATE_FRAGMENT_PATTERN.exec(normalized)) !== null) {
+    if (match[1] && Number(match[1]) !== year) return false
+    if (match[2] && Number(match[2]) !== month) return false
+    if (match[3] && Number(match[3]) !== day) return false
+    matched = true
+  }
+  return matched
+}
+
+/**
+ * 找出识别结果中日期、上班时间、下班时间来自哪些单词
+ * 上班取第一个时段的开始，下班取最后一个时段的结束
+ */
+export function findFieldWords(words: { text: string }[], parsed: ParsedDingTalkRecord): Record<OcrField, number[]> {
+  const result: Record<OcrField, number[]> = { date: [], start: [], end: [] }
+  const first = parsed.segments[0]
+  const last = parsed.segments[parsed.segments.length - 1]
+  words.forEach((word, index) => {
+    const times = extractLineTimes(word.text).map(time => time.time)
+    if (first && times.includes(first.startTime)) result.start.push(index)
+    if (last && times.includes(last.endTime)) result.end.push(index)
+    if (times.length === 0 && matchesDate(word.text, parsed.date)) result.date.push(index)
+  })
+  return result
+}
+
+/**
+ * 用手动指定的文字修正识别结果中的日期、上班或下班时间
+ * 文字无法解析为日期或时间时返回 null
+ */
+export function applyFieldCorrection(
+  parsed: ParsedDingTalkRecord,
+  field: OcrField,
+  text: string,
+  referenceDate = new Date()
+): ParsedDingTalkRecord | null {
+  if (field === 'date') {
+    const { date, warning } = extractDate(text, referenceDate)
+    return warning ? null : { ...parsed, date }
+  }
+
+  const value = extractLineTimes(text)[0]
+  if (!value) return null
+  const punch: PunchTime = { ...value, label: '手动修正', role: field, status: null, confidence: 1 }
+  const segments = parsed.segments.length > 0
+    ? [...parsed.segments]
+    : [{ startTime: value.time, endTime: value.time }]
+  if (field === 'start') {
+    const segment = segments[0]
+    const end: PunchTime = { time: segment.endTime, nextDay: Boolean(segment.endsNextDay), label: '', role: 'end', status: null, confidence: 1 }
+    segments[0] = punchesToSegment(punch, end)
+  } else {
+    const index = segments.length - 1
+    const segment = segments[index]
+    const start: PunchTime = { time: segment.startTime, nextDay: Boolean(segment.startsNextDay), label: '', role: 'start', status: null, confidence: 1 }
+    segments[index] = punchesToSegment(start, punch)
+  }
+
+  const hasPunch = parsed.punches.some(item => item.time === punch.time && item.nextDay === punch.nextDay)
+  const punches = hasPunch
+    ? parsed.punches
+    : [...parsed.punches, punch].sort((a, b) => punchToMinutes(a) - punchToMinutes(b))
+
+  return {
+    ...parsed,
+    startTime: segments[0].startTime,
+    endTime: segments[segments.length - 1].endTime,
+    endsNextDay: Boolean(segments[segments.length - 1].endsNextDay),
+    times: punches.map(item => (item.nextDay ? `次日${item.time}` : item.time)),
+    punches,
+    segments,
+    isValid: segments.every(segment => segment.startTime !== segment.endTime || Boolean(segment.endsNextDay))
+  }
+}
+
 /**
  * 解析钉钉统计页面的 OCR 文本
  * 提取平均工时、出勤天数、休息天数等信息
@@ -224,3 +559,101 @@ export function parseDingTalkStatsText(text: string, workdaysInMonth: number): P
     warnings
   }
 }
+
+// 月度考勤中的日期：“01-05”“1/5”“1月5日”，或行首的“5日”“05 周五”
+const MONTH_DAY_PATTERN = /^\s*(?:(\d{1,2})\s*[月\/\-]\s*(\d{1,2})\s*日?|(\d{1,2})\s*日|(\d{1,2})(?=\s*(?:周|星期)))/
+
+/**
+ * 解析钉钉月度考勤截图（月历详情或打卡明细列表）的 OCR 文本
+ * 以行首日期分组：日期所在行及其后直到下一个日期之前的时间都属于这一天
+ */
+export function parseDingTalkMonthText(text: string, referenceMonth = new Date()): ParsedDingTalkMonth {
+  const warnings: string[] = []
+  let year = referenceMonth.getFullYear()
+  let month = referenceMonth.getMonth() + 1
+
+  const header = text.replace(/\s+/g, '').match(/(\d{4})年(\d{1,2})月/)
+  if (header && Number(header[2]) >= 1 && Number(header[2]) <= 12) {
+    year = Number(header[1])
+    month = Number(header[2])
+  } else {
+    warnings.push(`未识别到月份，已按 ${year} 年 ${month} 月处理。`)
+  }
+
+  const groups = new Map<string, { lines: string[] }>()
+  let current: { lines: string[] } | null = null
+
+  text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => {
+    if (/\d{4}\s*年\s*\d{1,2}\s*月(?!\s*\d{1,2}\s*日)/.test(line)) return
+
+    const match = line.match(MONTH_DAY_PATTERN)
+    if (match) {
+      const lineMonth = match[1] ? Number(match[1]) : month
+      const day = Number(match[2] ?? match[3] ?? match[4])
+      if (day >= 1 && day <= 31) {
+        // 其他月份的日期（月历首尾的相邻月）不导入，其后的时间也一并跳过
+        if (lineMonth !== month) {
+          current = null
+          return
+        }
+        const date = formatDateYMD(year, month, day)
+        current = groups.get(date) ?? { lines: [] }
+        groups.set(date, current)
+        current.lines.push(line.slice(match[0].length))
+        return
+      }
+    }
+    current?.lines.push(line)
+  })
+
+  const days: ParsedDingTalkMonthDay[] = Array.from(groups.entries()).map(([date, group]) => {
+    const dayWarnings: string[] = []
+    const statuses = new Set<PunchStatus>()
+    const byTime = new Map<string, PunchTime>()
+    let currentRole: PunchRole | null = null
+
+    group.lines.forEach(line => {
+      const role = findRole(line)
+      if (role) currentRole = role
+      const status = findStatus(line)
+      if (status === 'missed') {
+        statuses.add('missed')
+        return
+      }
+      if (status && status !== 'normal') statuses.add(status)
+      if (IGNORED_LINE_PATTERN.test(line)) return
+
+      extractLineTimes(line.replace(DATE_IN_LINE_PATTERN, ' ')).forEach(time => {
+        const key = `${time.nextDay ? '+' : ''}${time.time}`
+        if (byTime.has(key)) return
+        byTime.set(key, { ...time, label: role ? (role === 'start' ? '上班' : '下班') : '', role: currentRole, status, confidence: role ? 0.85 : 0.7 })
+      })
+    })
+
+    const punches = Array.from(byTime.values()).sort((a, b) => punchToMinutes(a) - punchToMinutes(b))
+    const segments = pairPunches(punches)
+    if (punches.length === 0) {
+      dayWarnings.push(statuses.has('missed') ? '缺卡' : '未识别到打卡时间')
+    } else if (punches.length === 1) {
+      dayWarnings.push('只有一次打卡')
+    } else if (punches.length > 2) {
+      dayWarnings.push('多次打卡，请确认配对')
+    }
+
+    return {
+      date,
+      punches,
+      segments,
+      statuses: Array.from(statuses),
+      isValid: segments.length > 0,
+      warnings: dayWarnings
+    }
+  })
+
+  days.sort((a, b) => a.date.localeCompare(b.date))
+  if (days.length === 0) {
+    warnings.push('未识别到带日期的打卡记录，请确认截图是钉钉月度考勤页面。')
+  }
+
+  return { year, month, days, warnings }
+}
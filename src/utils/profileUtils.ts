@@ -0,0 +1,70 @@
+// 档案：同一设备上多人分别记录工时，每个档案有独立的记录、工时规则和节假日地区
+export interface Profile {
+  id: string
+  name: string
+  createdAt: string // ISO 时间
+}
+
+const PROFILES_KEY = 'profiles'
+const ACTIVE_PROFILE_KEY = 'activeProfile'
+
+// 默认档案沿用旧版本的存储键，升级后原有数据直接归入默认档案
+export const DEFAULT_PROFILE_ID = 'default'
+
+const DEFAULT_PROFILE: Profile = {
+  id: DEFAULT_PROFILE_ID,
+  name: '我',
+  createdAt: new Date(0).toISOString()
+}
+
+/**
+ * 按档案区分的存储键
+ * 默认档案使用原来的键名，其他档案在键名后加上 “:档案 id”
+ */
+export function getProfileStorageKey(base: string, profileId: string = loadActiveProfileId()): string {
+  return profileId === DEFAULT_PROFILE_ID ? base : `${base}:${profileId}`
+}
+
+// 读取档案列表，默认档案始终存在且排在最前
+export function loadProfiles(): Profile[] {
+  let stored: Profile[] = []
+  try {
+    const data = localStorage.getItem(PROFILES_KEY)
+    const parsed: unknown = data ? JSON.parse(data) : []
+    if (Array.isArray(parsed)) {
+      stored = parsed.filter((profile): profile is Profile =>
+        Boolean(profile) && typeof profile.id === 'string' && typeof profile.name === 'string'
+      )
+    }
+  } catch {
+    stored = []
+  }
+  const defaultProfile = stored.find(profile => profile.id === DEFAULT_PROFILE_ID) ?? DEFAULT_PROFILE
+  return [defaultProfile, ...stored.filter(profile => profile.id !== DEFAULT_PROFILE_ID)]
+}
+
+export function saveProfiles(profiles: Profile[]): void {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+}
+
+// 当前档案；记录的档案已被删除时回到默认档案
+export function loadActiveProfileId(): string {
+  const id = localStorage.getItem(ACTIVE_PROFILE_KEY)
+  return id && loadProfiles().some(profile => profile.id === id) ? id : DEFAULT_PROFILE_ID
+}
+
+export function saveActiveProfileId(profileId: string): void {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId)
+}
+
+// 删除档案在 localStorage 中的全部数据（IndexedDB 中的记录见 storageUtils）
+export function clearProfileStorage(profileId: string): void {
+  if (profileId === DEFAULT_PROFILE_ID) return
+  const suffix = `:${profileId}`
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key?.endsWith(suffix)) keys.push(key)
+  }
+  keys.forEach(key => localStorage.removeItem(key))
+}
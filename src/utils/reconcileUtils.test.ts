@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { reconcileMonth } from './reconcileUtils'
+import { createRecord } from './timeUtils'
+import { DEFAULT_WORK_SETTINGS } from './settingsUtils'
+
+describe('reconcileMonth', () => {
+  it('开启取整和迟到宽限时，同样的打卡不算工时不一致', () => {
+    const settings = {
+      ...DEFAULT_WORK_SETTINGS,
+      roundingMinutes: 30,
+      roundingMode: 'floor' as const,
+      lateGraceMinutes: 15
+    }
+    const segments = [{ startTime: '09:10', endTime: '18:25' }]
+    const record = createRecord({ date: '2025-03-03', segments }, 'manual', settings)
+    expect(record.workedMinutes).not.toBe(record.rawWorkedMinutes)
+
+    const result = reconcileMonth(new Date(2025, 2, 1), [record], null, [{ date: '2025-03-03', segments }], settings)
+    expect(result.mismatched).toEqual([])
+    expect(result.local.totalMinutes).toBe(record.rawWorkedMinutes)
+  })
+
+  it('实际工时相差超过容差时列出', () => {
+    const record = createRecord({ date: '2025-03-03', segments: [{ startTime: '09:00', endTime: '18:00' }] })
+    const result = reconcileMonth(new Date(2025, 2, 1), [record], null, [
+      { date: '2025-03-03', segments: [{ startTime: '09:00', endTime: '20:00' }] }
+    ])
+    expect(result.mismatched).toEqual([{ date: '2025-03-03', dingTalkMinutes: 600, localMinutes: 480 }])
+  })
+})
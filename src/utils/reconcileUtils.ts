@@ -0,0 +1,98 @@
+import {
+  TimeRecord,
+  WorkSegment,
+  calculateRawSegmentsWorkedMinutes,
+  filterCurrentMonthRecords,
+  getRecordSegments
+} from './timeUtils'
+import { WorkSettings, DEFAULT_WORK_SETTINGS } from './settingsUtils'
+import type { ParsedDingTalkStats } from './ocrUtils'
+
+// 钉钉某天的打卡（来自月度考勤识别）
+export interface DingTalkDay {
+  date: string
+  segments: WorkSegment[]
+}
+
+export interface ReconcileTotals {
+  attendanceDays: number
+  totalMinutes: number
+}
+
+// 同一天钉钉与本地工时不一致
+export interface ReconcileMismatch {
+  date: string
+  dingTalkMinutes: number
+  localMinutes: number
+}
+
+export interface ReconcileResult {
+  dingTalk: ReconcileTotals | null // 优先取统计页面，否则按逐日打卡汇总；都没有时为 null
+  local: ReconcileTotals
+  hasDailyData: boolean // 是否有钉钉逐日打卡可对比
+  onlyDingTalk: string[] // 钉钉有打卡、本地没有记录的日期
+  onlyLocal: string[] // 本地有记录、钉钉没有打卡的日期
+  mismatched: ReconcileMismatch[]
+}
+
+// 每天工时相差不超过此分钟数视为一致
+export const RECONCILE_TOLERANCE_MINUTES = 15
+
+function sumMinutes(byDate: Map<string, number>): number {
+  return Array.from(byDate.values()).reduce((sum, minutes) => sum + minutes, 0)
+}
+
+/**
+ * 对比钉钉考勤与本地记录
+ * 汇总数据来自统计页面识别；逐日对比需要月度考勤识别的结果
+ * 两边都按打卡时段计算实际工时（只扣午休），不受取整、迟到宽限规则影响
+ */
+export function reconcileMonth(
+  month: Date,
+  records: TimeRecord[],
+  stats: ParsedDingTalkStats | null,
+  dingTalkDays: DingTalkDay[],
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): ReconcileResult {
+  const monthRecords = filterCurrentMonthRecords(records, month)
+  const localByDate = new Map<string, number>()
+  monthRecords.forEach(record => {
+    const minutes = calculateRawSegmentsWorkedMinutes(getRecordSegments(record), settings)
+    localByDate.set(record.date, (localByDate.get(record.date) ?? 0) + minutes)
+  })
+
+  const monthPrefix = `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`
+  const dingTalkByDate = new Map<string, number>()
+  dingTalkDays
+    .filter(day => day.date.startsWith(monthPrefix) && day.segments.length > 0)
+    .forEach(day => {
+      dingTalkByDate.set(day.date, calculateRawSegmentsWorkedMinutes(day.segments, settings))
+    })
+
+  const onlyDingTalk = Array.from(dingTalkByDate.keys()).filter(date => !localByDate.has(date)).sort()
+  const onlyLocal = dingTalkByDate.size > 0
+    ? Array.from(localByDate.keys()).filter(date => !dingTalkByDate.has(date)).sort()
+    : []
+  const mismatched = Array.from(dingTalkByDate.entries())
+    .filter(([date, minutes]) =>
+      localByDate.has(date) && Math.abs(minutes - localByDate.get(date)!) > RECONCILE_TOLERANCE_MINUTES
+    )
+    .map(([date, dingTalkMinutes]) => ({ date, dingTalkMinutes, localMinutes: localByDate.get(date)! }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  return {
+    dingTalk: stats
+      ? { attendanceDays: stats.attendanceDays, totalMinutes: Math.round(stats.totalHours * 60) }
+      : dingTalkByDate.size > 0
+        ? { attendanceDays: dingTalkByDate.size, totalMinutes: sumMinutes(dingTalkByDate) }
+        : null,
+    local: {
+      attendanceDays: localByDate.size,
+      totalMinutes: sumMinutes(localByDate)
+    },
+    hasDailyData: dingTalkByDate.size > 0,
+    onlyDingTalk,
+    onlyLocal,
+    mismatched
+  }
+}
@@ -0,0 +1,176 @@
+import {
+  startOfISOWeek,
+  endOfISOWeek,
+  startOfMonth,
+  endOfMonth,
+  startOfQuarter,
+  endOfQuarter,
+  startOfYear,
+  endOfYear,
+  subWeeks,
+  subMonths,
+  subQuarters,
+  subYears,
+  getISOWeek,
+  getISOWeekYear,
+  getQuarter,
+  format
+} from 'date-fns'
+import {
+  TimeRecord,
+  OvertimeCategory,
+  getRecordOvertimeCategory,
+  getWeightedOvertimeMinutes
+} from './timeUtils'
+import { WorkSettings, DEFAULT_WORK_SETTINGS } from './settingsUtils'
+
+// 报表周期：ISO 周、月、季度、年
+export type ReportPeriod = 'week' | 'month' | 'quarter' | 'year'
+
+export const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  week: '周',
+  month: '月',
+  quarter: '季度',
+  year: '年'
+}
+
+// 加班按类别拆分，total 为合计
+export type OvertimeBreakdown = Record<OvertimeCategory, number> & { total: number }
+
+export interface PeriodReport {
+  period: ReportPeriod
+  key: string // 如 2025-W10、2025-03、2025-Q1、2025
+  label: string
+  start: string // YYYY-MM-DD
+  end: string
+  recordCount: number
+  workedMinutes: number
+  overtime: OvertimeBreakdown
+  weightedOvertime: number // 按类别倍数折算的加班
+  workdayCount: number // 有记录的工作日天数
+  averageWorkdayMinutes: number // 工作日日均工时
+}
+
+// 与上一周期相比的变化（本期 - 上期）
+export interface PeriodComparison {
+  current: PeriodReport
+  previous: PeriodReport
+  workedDiff: number
+  overtimeDiff: number
+  weightedOvertimeDiff: number
+  averageWorkdayDiff: number
+}
+
+function getPeriodRange(period: ReportPeriod, date: Date): { start: Date; end: Date } {
+  switch (period) {
+    case 'week':
+      return { start: startOfISOWeek(date), end: endOfISOWeek(date) }
+    case 'month':
+      return { start: startOfMonth(date), end: endOfMonth(date) }
+    case 'quarter':
+      return { start: startOfQuarter(date), end: endOfQuarter(date) }
+    case 'year':
+      return { start: startOfYear(date), end: endOfYear(date) }
+  }
+}
+
+function getPeriodKeyAndLabel(period: ReportPeriod, date: Date): { key: string; label: string } {
+  switch (period) {
+    case 'week': {
+      const year = getISOWeekYear(date)
+      const week = getISOWeek(date)
+      return { key: `${year}-W${String(week).padStart(2, '0')}`, label: `${year}年第${week}周` }
+    }
+    case 'month':
+      return { key: format(date, 'yyyy-MM'), label: format(date, 'yyyy年M月') }
+    case 'quarter':
+      return { key: `${date.getFullYear()}-Q${getQuarter(date)}`, label: `${date.getFullYear()}年第${getQuarter(date)}季度` }
+    case 'year':
+      return { key: String(date.getFullYear()), label: `${date.getFullYear()}年` }
+  }
+}
+
+// 往前推 amount 个周期
+function shiftPeriod(period: ReportPeriod, date: Date, amount: number): Date {
+  switch (period) {
+    case 'week':
+      return subWeeks(date, amount)
+    case 'month':
+      return subMonths(date, amount)
+    case 'quarter':
+      return subQuarters(date, amount)
+    case 'year':
+      return subYears(date, amount)
+  }
+}
+
+// 汇总包含 date 的那个周期
+export function buildPeriodReport(
+  period: ReportPeriod,
+  date: Date,
+  records: TimeRecord[],
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): PeriodReport {
+  const range = getPeriodRange(period, date)
+  const start = format(range.start, 'yyyy-MM-dd')
+  const end = format(range.end, 'yyyy-MM-dd')
+  const periodRecords = records.filter(record => record.date >= start && record.date <= end)
+
+  const overtime: OvertimeBreakdown = { weekday: 0, restDay: 0, statutoryHoliday: 0, total: 0 }
+  let weightedOvertime = 0
+  const workdayMinutesByDate = new Map<string, number>()
+  periodRecords.forEach(record => {
+    overtime[getRecordOvertimeCategory(record)] += record.overtimeMinutes
+    overtime.total += record.overtimeMinutes
+    weightedOvertime += getWeightedOvertimeMinutes(record, settings)
+    if (record.type === 'workday') {
+      workdayMinutesByDate.set(record.date, (workdayMinutesByDate.get(record.date) ?? 0) + record.workedMinutes)
+    }
+  })
+  const workdayMinutes = Array.from(workdayMinutesByDate.values()).reduce((sum, minutes) => sum + minutes, 0)
+
+  return {
+    period,
+    ...getPeriodKeyAndLabel(period, range.start),
+    start,
+    end,
+    recordCount: periodRecords.length,
+    workedMinutes: periodRecords.reduce((sum, record) => sum + record.workedMinutes, 0),
+    overtime,
+    weightedOvertime,
+    workdayCount: workdayMinutesByDate.size,
+    averageWorkdayMinutes: workdayMinutesByDate.size > 0 ? Math.round(workdayMinutes / workdayMinutesByDate.size) : 0
+  }
+}
+
+// 截至 date 所在周期的连续 count 个周期，按时间先后排列
+export function buildReportSeries(
+  period: ReportPeriod,
+  date: Date,
+  records: TimeRecord[],
+  count: number,
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): PeriodReport[] {
+  return Array.from({ length: count }, (_, index) =>
+    buildPeriodReport(period, shiftPeriod(period, date, count - 1 - index), records, settings)
+  )
+}
+
+// 本期与上一周期对比
+export function comparePeriods(
+  period: ReportPeriod,
+  date: Date,
+  records: TimeRecord[],
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): PeriodComparison {
+  const current = buildPeriodReport(period, date, records, settings)
+  const previous = buildPeriodReport(period, shiftPeriod(period, date, 1), records, settings)
+  return {
+    current,
+    previous,
+    workedDiff: current.workedMinutes - previous.workedMinutes,
+    overtimeDiff: current.overtime.total - previous.overtime.total,
+    weightedOvertimeDiff: current.weightedOvertime - previous.weightedOvertime,
+    averageWorkdayDiff: current.averageWorkdayMinutes - previous.averageWorkdayMinutes
+  }
+}
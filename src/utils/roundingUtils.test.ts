@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { roundMinutes, applyLateGrace, creditOvertimeMinutes } from './roundingUtils'
+import { DEFAULT_WORK_SETTINGS } from './settingsUtils'
+
+describe('roundMinutes', () => {
+  it('粒度为 1 时不取整', () => {
+    expect(roundMinutes(487, 1, 'ceil')).toBe(487)
+    expect(roundMinutes(487, 0, 'nearest')).toBe(487)
+  })
+
+  it('四舍五入在半个粒度处进位', () => {
+    expect(roundMinutes(22, 15, 'nearest')).toBe(15)
+    expect(roundMinutes(23, 15, 'nearest')).toBe(30)
+    expect(roundMinutes(45, 30, 'nearest')).toBe(60)
+  })
+
+  it('整粒度的值保持不变', () => {
+    expect(roundMinutes(480, 15, 'floor')).toBe(480)
+    expect(roundMinutes(480, 15, 'ceil')).toBe(480)
+    expect(roundMinutes(480, 15, 'nearest')).toBe(480)
+  })
+
+  it('向下、向上取整', () => {
+    expect(roundMinutes(494, 15, 'floor')).toBe(480)
+    expect(roundMinutes(481, 15, 'ceil')).toBe(495)
+  })
+})
+
+describe('applyLateGrace', () => {
+  const settings = { ...DEFAULT_WORK_SETTINGS, workStartTime: '09:00', lateGraceMinutes: 10 }
+
+  it('宽限内按标准上班时间计，正好等于宽限也算', () => {
+    expect(applyLateGrace([{ startTime: '09:10', endTime: '18:00' }], settings)[0].startTime).toBe('09:00')
+  })
+
+  it('超过宽限、准时或提前都不调整', () => {
+    expect(applyLateGrace([{ startTime: '09:11', endTime: '18:00' }], settings)[0].startTime).toBe('09:11')
+    expect(applyLateGrace([{ startTime: '09:00', endTime: '18:00' }], settings)[0].startTime).toBe('09:00')
+    expect(applyLateGrace([{ startTime: '08:50', endTime: '18:00' }], settings)[0].startTime).toBe('08:50')
+  })
+
+  it('次日开始的时段和弹性班不调整', () => {
+    expect(applyLateGrace([{ startTime: '09:05', endTime: '10:00', startsNextDay: true }], settings)[0].startTime).toBe('09:05')
+    expect(applyLateGrace([{ startTime: '09:05', endTime: '18:00' }], { ...settings, scheduleMode: 'flexible' })[0].startTime).toBe('09:05')
+  })
+})
+
+describe('creditOvertimeMinutes', () => {
+  const settings = { ...DEFAULT_WORK_SETTINGS, overtimeThresholdMinutes: 30, overtimeBlockMinutes: 30 }
+
+  it('工作日先扣除起算门槛，再按块计', () => {
+    expect(creditOvertimeMinutes(30, 'workday', settings)).toBe(0)
+    expect(creditOvertimeMinutes(59, 'workday', settings)).toBe(0)
+    expect(creditOvertimeMinutes(60, 'workday', settings)).toBe(30)
+    expect(creditOvertimeMinutes(119, 'workday', settings)).toBe(60)
+  })
+
+  it('休息日不设门槛', () => {
+    expect(creditOvertimeMinutes(30, 'holiday', settings)).toBe(30)
+    expect(creditOvertimeMinutes(29, 'holiday', settings)).toBe(0)
+  })
+
+  it('加班块为 1 时按分钟计', () => {
+    expect(creditOvertimeMinutes(7, 'workday', DEFAULT_WORK_SETTINGS)).toBe(7)
+  })
+})
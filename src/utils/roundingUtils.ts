@@ -0,0 +1,47 @@
+import { WorkSettings, DEFAULT_WORK_SETTINGS, timeToMinutes } from './settingsUtils'
+import type { WorkSegment } from './timeUtils'
+
+// 取整方式：nearest=四舍五入, floor=向下, ceil=向上
+export type RoundingMode = 'nearest' | 'floor' | 'ceil'
+
+export const ROUNDING_MODE_LABELS: Record<RoundingMode, string> = {
+  nearest: '四舍五入',
+  floor: '向下取整',
+  ceil: '向上取整'
+}
+
+// 按粒度取整，unit 小于等于 1 时不取整
+export function roundMinutes(minutes: number, unit: number, mode: RoundingMode): number {
+  const granularity = Math.max(1, unit)
+  if (granularity === 1) return minutes
+  const rounder = mode === 'nearest' ? Math.round : mode === 'ceil' ? Math.ceil : Math.floor
+  return rounder(minutes / granularity) * granularity
+}
+
+/**
+ * 迟到宽限：第一段的上班时间晚于标准上班时间、但不超过宽限分钟数时，按标准上班时间计
+ * 只用于固定班的工作日；次日开始的时段不调整
+ */
+export function applyLateGrace(segments: WorkSegment[], settings: WorkSettings = DEFAULT_WORK_SETTINGS): WorkSegment[] {
+  const [first, ...rest] = segments
+  if (!first || first.startsNextDay || settings.scheduleMode !== 'fixed' || settings.lateGraceMinutes <= 0) return segments
+  const late = timeToMinutes(first.startTime) - timeToMinutes(settings.workStartTime)
+  if (!(late > 0 && late <= settings.lateGraceMinutes)) return segments
+  return [{ ...first, startTime: settings.workStartTime }, ...rest]
+}
+
+/**
+ * 计入的加班分钟
+ * 工作日超出标准工时后，先扣除加班起算门槛；休息日不设门槛
+ * 然后按加班块计算，不足一块的部分不计
+ */
+export function creditOvertimeMinutes(
+  rawOvertimeMinutes: number,
+  type: 'workday' | 'holiday',
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): number {
+  const threshold = type === 'workday' ? settings.overtimeThresholdMinutes : 0
+  const overtime = Math.max(0, rawOvertimeMinutes - threshold)
+  const block = Math.max(1, settings.overtimeBlockMinutes)
+  return Math.floor(overtime / block) * block
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { loadOpenSession, saveOpenSession } from './sessionUtils'
+import { getProfileStorageKey } from './profileUtils'
+
+describe('loadOpenSession', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('读取保存的会话', () => {
+    saveOpenSession({ startedAt: '2025-03-03T01:00:00.000Z' }, 'p1')
+    expect(loadOpenSession('p1')).toEqual({ startedAt: '2025-03-03T01:00:00.000Z' })
+  })
+
+  it('开始时间无效时返回 null', () => {
+    const key = getProfileStorageKey('openSession', 'p1')
+    for (const value of [{ startedAt: 'not a date' }, { startedAt: 123 }, {}, 'text', null]) {
+      localStorage.setItem(key, JSON.stringify(value))
+      expect(loadOpenSession('p1')).toBeNull()
+    }
+  })
+})
@@ -0,0 +1,74 @@
+import { addDays, format, parse } from 'date-fns'
+import { RecordFields } from './timeUtils'
+import { WorkSettings, DEFAULT_WORK_SETTINGS } from './settingsUtils'
+import { getProfileStorageKey, loadActiveProfileId } from './profileUtils'
+
+// 正在计时的上班会话（点击“开始上班”时创建，“下班”时转为记录）
+export interface OpenSession {
+  startedAt: string // ISO 时间
+}
+
+export function createOpenSession(now: Date = new Date()): OpenSession {
+  return { startedAt: now.toISOString() }
+}
+
+// 计时截止时刻：开始日期的次日 sessionCutoffTime
+export function getSessionCutoff(session: OpenSession, settings: WorkSettings = DEFAULT_WORK_SETTINGS): Date {
+  const startDate = format(new Date(session.startedAt), 'yyyy-MM-dd')
+  return addDays(parse(`${startDate} ${settings.sessionCutoffTime}`, 'yyyy-MM-dd HH:mm', new Date()), 1)
+}
+
+export function isSessionPastCutoff(
+  session: OpenSession,
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS,
+  now: Date = new Date()
+): boolean {
+  return now.getTime() > getSessionCutoff(session, settings).getTime()
+}
+
+// 会话在 end 时结束对应的记录字段，记在开始的那一天，跨零点的标记为次日下班
+export function getSessionFields(session: OpenSession, end: Date): RecordFields {
+  const start = new Date(session.startedAt)
+  const date = format(start, 'yyyy-MM-dd')
+  return {
+    date,
+    segments: [{
+      startTime: format(start, 'HH:mm'),
+      endTime: format(end, 'HH:mm'),
+      startsNextDay: false,
+      endsNextDay: format(end, 'yyyy-MM-dd') !== date
+    }]
+  }
+}
+
+// 已计时长，格式如 2:05:09
+export function formatElapsed(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+}
+
+// 本地存储（按档案区分），刷新页面后继续计时
+export function saveOpenSession(session: OpenSession | null, profileId: string = loadActiveProfileId()): void {
+  const key = getProfileStorageKey('openSession', profileId)
+  if (session) {
+    localStorage.setItem(key, JSON.stringify(session))
+  } else {
+    localStorage.removeItem(key)
+  }
+}
+
+// 开始时间解析不出有效日期时视为没有会话，避免计时和截止时间变成 NaN
+export function loadOpenSession(profileId: string = loadActiveProfileId()): OpenSession | null {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(getProfileStorageKey('openSession', profileId)) ?? 'null')
+    if (!data || typeof data !== 'object') return null
+    const { startedAt } = data as Record<string, unknown>
+    if (typeof startedAt !== 'string' || Number.isNaN(new Date(startedAt).getTime())) return null
+    return { startedAt }
+  } catch {
+    return null
+  }
+}
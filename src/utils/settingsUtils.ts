@@ -0,0 +1,164 @@
+import { getProfileStorageKey, loadActiveProfileId } from './profileUtils'
+import type { LeaveType } from './leaveUtils'
+import type { RoundingMode } from './roundingUtils'
+import type { OvertimeCategory } from './timeUtils'
+
+// 工时规则设置（不同团队规则不同，保存在本地）
+export interface WorkSettings {
+  lunchStart: string // 午休开始 HH:mm
+  lunchEnd: string // 午休结束 HH:mm
+  standardDailyHours: number // 标准日工时（小时）
+  overtimeTargetMode: 'perWorkday' | 'monthly' // 加班目标：按工作日 / 按月总量
+  overtimeHoursPerWorkday: number // 每个工作日需加班小时数
+  overtimeHoursPerMonth: number // 每月需加班总小时数
+  roundingMinutes: number // 工时取整粒度（分钟），1 表示不取整
+  roundingMode: RoundingMode // 工时取整方式
+  workStartTime: string // 标准上班时间 HH:mm，用于迟到宽限和考勤检查
+  workEndTime: string // 标准下班时间 HH:mm（固定班制）
+  scheduleMode: 'fixed' | 'flexible' // 班制：固定上下班时间 / 弹性工作（核心时段必须在岗）
+  coreStartTime: string // 弹性工作的核心时段开始 HH:mm
+  coreEndTime: string // 核心时段结束 HH:mm
+  lateGraceMinutes: number // 迟到宽限（分钟），宽限内按标准上班时间计
+  overtimeThresholdMinutes: number // 工作日超出标准工时后，再过多少分钟开始计加班
+  overtimeBlockMinutes: number // 加班按块计算（分钟），不足一块不计，1 表示不分块
+  leaveExemptTypes: LeaveType[] // 请假当天不计应出勤、不需加班的假期类型
+  overtimeMultipliers: Record<OvertimeCategory, number> // 各类加班的折算倍数
+  hourlyWage: number // 时薪（元），用于估算加班费，0 表示不估算
+  sessionCutoffTime: string // 上班计时在次日此时间仍未结束时，提示修正下班时间 HH:mm
+}
+
+export const DEFAULT_WORK_SETTINGS: WorkSettings = {
+  lunchStart: '12:00',
+  lunchEnd: '13:00',
+  standardDailyHours: 8,
+  overtimeTargetMode: 'perWorkday',
+  overtimeHoursPerWorkday: 2,
+  overtimeHoursPerMonth: 40,
+  roundingMinutes: 1,
+  roundingMode: 'floor',
+  workStartTime: '09:00',
+  workEndTime: '18:00',
+  scheduleMode: 'fixed',
+  coreStartTime: '10:00',
+  coreEndTime: '16:00',
+  lateGraceMinutes: 0,
+  overtimeThresholdMinutes: 0,
+  overtimeBlockMinutes: 1,
+  leaveExemptTypes: ['annual', 'sick', 'personal', 'compensatory'],
+  // 劳动法：工作日 150%，休息日 200%，法定节假日 300%
+  overtimeMultipliers: { weekday: 1.5, restDay: 2, statutoryHoliday: 3 },
+  hourlyWage: 0,
+  sessionCutoffTime: '04:00'
+}
+
+// HH:mm 转换为当天的分钟数
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// 午休时长（分钟）
+export function getLunchBreakMinutes(settings: WorkSettings): number {
+  return Math.max(0, timeToMinutes(settings.lunchEnd) - timeToMinutes(settings.lunchStart))
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const TIME_FIELDS = ['lunchStart', 'lunchEnd', 'workStartTime', 'workEndTime', 'coreStartTime', 'coreEndTime', 'sessionCutoffTime'] as const
+
+// 校验设置，返回错误信息列表
+export function validateSettings(settings: WorkSettings): string[] {
+  const errors: string[] = []
+  if (TIME_FIELDS.some(field => settings[field] && !TIME_PATTERN.test(settings[field]))) {
+    errors.push('时间格式应为 HH:mm')
+  }
+  if (
+    !['perWorkday', 'monthly'].includes(settings.overtimeTargetMode) ||
+    !['nearest', 'floor', 'ceil'].includes(settings.roundingMode) ||
+    !['fixed', 'flexible'].includes(settings.scheduleMode)
+  ) {
+    errors.push('设置中包含无效的选项')
+  }
+  if (settings.lunchEnd < settings.lunchStart) {
+    errors.push('午休结束时间不能早于开始时间')
+  }
+  if (!(settings.standardDailyHours > 0 && settings.standardDailyHours <= 24)) {
+    errors.push('标准日工时需在 0-24 小时之间')
+  }
+  if (settings.overtimeHoursPerWorkday < 0 || settings.overtimeHoursPerMonth < 0) {
+    errors.push('加班目标不能为负数')
+  }
+  if (!(Number.isInteger(settings.roundingMinutes) && settings.roundingMinutes >= 1 && settings.roundingMinutes <= 60)) {
+    errors.push('取整粒度需为 1-60 之间的整数')
+  }
+  if (!settings.workStartTime || !settings.workEndTime) {
+    errors.push('请填写标准上下班时间')
+  } else if (settings.workEndTime <= settings.workStartTime) {
+    errors.push('标准下班时间需晚于上班时间')
+  }
+  if (settings.scheduleMode === 'flexible' && !(settings.coreStartTime && settings.coreEndTime && settings.coreEndTime > settings.coreStartTime)) {
+    errors.push('核心时段结束时间需晚于开始时间')
+  }
+  if (!(Number.isInteger(settings.lateGraceMinutes) && settings.lateGraceMinutes >= 0 && settings.lateGraceMinutes <= 120)) {
+    errors.push('迟到宽限需为 0-120 之间的整数')
+  }
+  if (!(Number.isInteger(settings.overtimeThresholdMinutes) && settings.overtimeThresholdMinutes >= 0 && settings.overtimeThresholdMinutes <= 240)) {
+    errors.push('加班起算门槛需为 0-240 之间的整数')
+  }
+  if (!(Number.isInteger(settings.overtimeBlockMinutes) && settings.overtimeBlockMinutes >= 1 && settings.overtimeBlockMinutes <= 240)) {
+    errors.push('加班计算块需为 1-240 之间的整数')
+  }
+  if (Object.values(settings.overtimeMultipliers).some(multiplier => !(multiplier >= 0 && multiplier <= 10))) {
+    errors.push('加班折算倍数需在 0-10 之间')
+  }
+  if (!(settings.hourlyWage >= 0)) {
+    errors.push('时薪不能为负数')
+  }
+  if (!settings.sessionCutoffTime) {
+    errors.push('请填写计时截止时间')
+  }
+  return errors
+}
+
+// 本地存储
+export function saveSettings(settings: WorkSettings, profileId: string = loadActiveProfileId()): void {
+  localStorage.setItem(getProfileStorageKey('workSettings', profileId), JSON.stringify(settings))
+}
+
+// 存储中的值与默认值类型一致（数组为字符串数组，对象的每一项为数字）
+function hasSameShape(defaultValue: unknown, value: unknown): boolean {
+  if (Array.isArray(defaultValue)) {
+    return Array.isArray(value) && value.every(item => typeof item === 'string')
+  }
+  if (typeof defaultValue === 'object' && defaultValue !== null) {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      Object.keys(defaultValue).every(key => Number.isFinite((value as Record<string, unknown>)[key]))
+  }
+  if (typeof defaultValue === 'number') return Number.isFinite(value)
+  return typeof value === typeof defaultValue
+}
+
+/**
+ * 与默认值逐个字段合并，兼容旧版本缺少的字段
+ * 类型不对、或会导致校验失败的字段使用默认值
+ */
+function sanitizeSettings(stored: Record<string, unknown>): WorkSettings {
+  const keys = (Object.keys(DEFAULT_WORK_SETTINGS) as (keyof WorkSettings)[])
+    .filter(key => hasSameShape(DEFAULT_WORK_SETTINGS[key], stored[key]))
+  const merged: WorkSettings = { ...DEFAULT_WORK_SETTINGS, ...Object.fromEntries(keys.map(key => [key, stored[key]])) }
+  if (validateSettings(merged).length === 0) return merged
+  return keys.reduce<WorkSettings>((settings, key) => {
+    const next = { ...settings, [key]: stored[key] }
+    return validateSettings(next).length === 0 ? next : settings
+  }, DEFAULT_WORK_SETTINGS)
+}
+
+export function loadSettings(profileId: string = loadActiveProfileId()): WorkSettings {
+  let stored: unknown
+  try {
+    stored = JSON.parse(localStorage.getItem(getProfileStorageKey('workSettings', profileId)) ?? 'null')
+  } catch {
+    return DEFAULT_WORK_SETTINGS
+  }
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return DEFAULT_WORK_SETTINGS
+  return sanitizeSettings(stored as Record<string, unknown>)
+}
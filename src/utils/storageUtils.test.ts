@@ -0,0 +1,30 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { loadQuarantine, loadRecordsFromStorage } from './storageUtils'
+import { getProfileStorageKey } from './profileUtils'
+
+describe('loadQuarantine', () => {
+  const key = getProfileStorageKey('timeRecordsQuarantine', 'p1')
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('不是数组时返回空列表', () => {
+    localStorage.setItem(key, JSON.stringify({ raw: 1 }))
+    expect(loadQuarantine('p1')).toEqual([])
+  })
+
+  it('丢弃格式不对的条目', () => {
+    const valid = { raw: { id: 'x' }, reason: '缺少 id', quarantinedAt: '2025-03-03T00:00:00.000Z' }
+    localStorage.setItem(key, JSON.stringify([valid, { reason: 1 }, null, 'text']))
+    expect(loadQuarantine('p1')).toEqual([valid])
+  })
+
+  it('隔离区损坏时仍能追加新的隔离记录', async () => {
+    localStorage.setItem(key, JSON.stringify('broken'))
+    localStorage.setItem(getProfileStorageKey('timeRecords', 'p1'), JSON.stringify([{ id: '' }]))
+    const result = await loadRecordsFromStorage('p1')
+    expect(result.quarantined).toHaveLength(1)
+    expect(loadQuarantine('p1')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,299 @@
+import { TimeRecord, WorkSegment } from './timeUtils'
+import { getProfileStorageKey, loadActiveProfileId } from './profileUtils'
+
+// 记录数据的存储格式版本（旧版本直接保存数组，视为版本 0）
+export const CURRENT_SCHEMA_VERSION = 1
+
+// 以下键名按档案区分，见 getProfileStorageKey
+const RECORDS_KEY = 'timeRecords'
+const QUARANTINE_KEY = 'timeRecordsQuarantine'
+const BACKEND_KEY = 'timeRecordsBackend'
+
+export type StorageBackend = 'localStorage' | 'indexedDB'
+
+// 存储的数据包
+interface StoredRecords {
+  schemaVersion: number
+  records: unknown[]
+}
+
+// 无法通过校验的记录，原样保留以便找回
+export interface QuarantinedRecord {
+  raw: unknown
+  reason: string
+  quarantinedAt: string // ISO 时间
+}
+
+export interface LoadRecordsResult {
+  records: TimeRecord[]
+  quarantined: QuarantinedRecord[] // 本次加载新隔离的记录
+  migratedFrom: number | null // 发生迁移时的原版本
+  backend: StorageBackend
+}
+
+// 迁移：把 version - 1 版本的记录升级到 version
+interface Migration {
+  version: number
+  migrate: (record: Record<string, unknown>) => Record<string, unknown>
+}
+
+function toSegments(value: Record<string, unknown>): WorkSegment[] {
+  return [{
+    startTime: String(value.startTime ?? ''),
+    endTime: String(value.endTime ?? ''),
+    startsNextDay: false,
+    endsNextDay: typeof value.endsNextDay === 'boolean' ? value.endsNextDay : undefined
+  }]
+}
+
+// 按版本顺序执行，新增字段时在末尾追加迁移
+const MIGRATIONS: Migration[] = [
+  {
+    // v1：补充工作时段、来源和修改历史；历史中的旧值改为时段格式
+    version: 1,
+    migrate: record => ({
+      ...record,
+      segments: Array.isArray(record.segments) && record.segments.length > 0 ? record.segments : toSegments(record),
+      source: record.source ?? 'manual',
+      history: Array.isArray(record.history)
+        ? record.history.map(change => {
+          const previous = (change?.previous ?? {}) as Record<string, unknown>
+          return {
+            ...change,
+            previous: {
+              date: previous.date,
+              segments: Array.isArray(previous.segments) ? previous.segments : toSegments(previous)
+            }
+          }
+        })
+        : []
+    })
+  }
+]
+
+export function migrateRecords(records: unknown[], fromVersion: number): unknown[] {
+  return MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => current.map(record =>
+      record && typeof record === 'object' ? migration.migrate(record as Record<string, unknown>) : record
+    ), records)
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^\d{2}:\d{2}$/
+
+function isValidSegment(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false
+  const segment = value as Record<string, unknown>
+  return typeof segment.startTime === 'string' && TIME_PATTERN.test(segment.startTime) &&
+    typeof segment.endTime === 'string' && TIME_PATTERN.test(segment.endTime)
+}
+
+// 校验单条记录，返回不合法的原因；合法时返回 null
+export function validateRecord(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return '不是对象'
+  const record = value as Record<string, unknown>
+  if (typeof record.id !== 'string' || !record.id) return '缺少 id'
+  if (typeof record.date !== 'string' || !DATE_PATTERN.test(record.date)) return `日期无效：${String(record.date)}`
+  if (record.type !== 'workday' && record.type !== 'holiday') return `类型无效：${String(record.type)}`
+  if (!Array.isArray(record.segments) || record.segments.length === 0 || !record.segments.every(isValidSegment)) {
+    return '工作时段无效'
+  }
+  if (typeof record.workedMinutes !== 'number' || !Number.isFinite(record.workedMinutes) || record.workedMinutes < 0) {
+    return '工作分钟无效'
+  }
+  if (typeof record.overtimeMinutes !== 'number' || !Number.isFinite(record.overtimeMinutes) || record.overtimeMinutes < 0) {
+    return '加班分钟无效'
+  }
+  return null
+}
+
+function parseStored(data: string): StoredRecords {
+  const parsed: unknown = JSON.parse(data)
+  if (Array.isArray(parsed)) {
+    return { schemaVersion: 0, records: parsed }
+  }
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as StoredRecords).records)) {
+    const stored = parsed as StoredRecords
+    return { schemaVersion: Number(stored.schemaVersion) || 0, records: stored.records }
+  }
+  throw new Error('unknown format')
+}
+
+/**
+ * 加载记录：读取存储、执行迁移、逐条校验
+ * 不合法的记录移入隔离区，整体数据损坏时也不会抛错
+ */
+export async function loadRecordsFromStorage(profileId: string = loadActiveProfileId()): Promise<LoadRecordsResult> {
+  const backend = getStorageBackend(profileId)
+  const recordsKey = getProfileStorageKey(RECORDS_KEY, profileId)
+  const quarantined: QuarantinedRecord[] = []
+  const now = new Date().toISOString()
+
+  let data: string | null = null
+  try {
+    data = backend === 'indexedDB' ? await idbGet(recordsKey) : localStorage.getItem(recordsKey)
+  } catch {
+    data = null
+  }
+  if (!data) {
+    return { records: [], quarantined, migratedFrom: null, backend }
+  }
+
+  let stored: StoredRecords
+  try {
+    stored = parseStored(data)
+  } catch {
+    quarantined.push({ raw: data, reason: '存储数据无法解析', quarantinedAt: now })
+    addToQuarantine(quarantined, profileId)
+    return { records: [], quarantined, migratedFrom: null, backend }
+  }
+
+  const migrated = stored.schemaVersion < CURRENT_SCHEMA_VERSION
+    ? migrateRecords(stored.records, stored.schemaVersion)
+    : stored.records
+
+  const records: TimeRecord[] = []
+  migrated.forEach((record, index) => {
+    const reason = validateRecord(record)
+    if (reason) {
+      // 隔离迁移前的原始数据，便于人工找回
+      quarantined.push({ raw: stored.records[index], reason, quarantinedAt: now })
+    } else {
+      records.push(record as TimeRecord)
+    }
+  })
+  addToQuarantine(quarantined, profileId)
+
+  return {
+    records,
+    quarantined,
+    migratedFrom: stored.schemaVersion < CURRENT_SCHEMA_VERSION ? stored.schemaVersion : null,
+    backend
+  }
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+}
+
+/**
+ * 保存记录，返回实际使用的存储后端
+ * localStorage 空间不足时自动切换到 IndexedDB
+ */
+export async function saveRecordsToStorage(
+  records: TimeRecord[],
+  profileId: string = loadActiveProfileId()
+): Promise<StorageBackend> {
+  const data = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, records } satisfies StoredRecords)
+  const recordsKey = getProfileStorageKey(RECORDS_KEY, profileId)
+
+  if (getStorageBackend(profileId) === 'localStorage') {
+    try {
+      localStorage.setItem(recordsKey, data)
+      return 'localStorage'
+    } catch (error) {
+      if (!isQuotaExceeded(error)) throw error
+    }
+  }
+
+  await idbSet(recordsKey, data)
+  if (getStorageBackend(profileId) !== 'indexedDB') {
+    localStorage.setItem(getProfileStorageKey(BACKEND_KEY, profileId), 'indexedDB')
+    localStorage.removeItem(recordsKey)
+  }
+  return 'indexedDB'
+}
+
+export function getStorageBackend(profileId: string = loadActiveProfileId()): StorageBackend {
+  return localStorage.getItem(getProfileStorageKey(BACKEND_KEY, profileId)) === 'indexedDB' ? 'indexedDB' : 'localStorage'
+}
+
+// 删除档案的记录（档案本身的其他数据见 profileUtils 的 clearProfileStorage）
+export async function deleteStoredRecords(profileId: string): Promise<void> {
+  const recordsKey = getProfileStorageKey(RECORDS_KEY, profileId)
+  if (getStorageBackend(profileId) === 'indexedDB') {
+    await idbDelete(recordsKey)
+  }
+  localStorage.removeItem(recordsKey)
+  localStorage.removeItem(getProfileStorageKey(BACKEND_KEY, profileId))
+  localStorage.removeItem(getProfileStorageKey(QUARANTINE_KEY, profileId))
+}
+
+// 隔离区
+function isQuarantinedRecord(value: unknown): value is QuarantinedRecord {
+  if (!value || typeof value !== 'object') return false
+  const item = value as Record<string, unknown>
+  return 'raw' in item && typeof item.reason === 'string' && typeof item.quarantinedAt === 'string'
+}
+
+// 隔离区本身损坏时不抛错，丢弃格式不对的条目
+export function loadQuarantine(profileId: string = loadActiveProfileId()): QuarantinedRecord[] {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(getProfileStorageKey(QUARANTINE_KEY, profileId)) ?? '[]')
+    return Array.isArray(data) ? data.filter(isQuarantinedRecord) : []
+  } catch {
+    return []
+  }
+}
+
+function addToQuarantine(items: QuarantinedRecord[], profileId: string): void {
+  if (items.length === 0) return
+  try {
+    localStorage.setItem(
+      getProfileStorageKey(QUARANTINE_KEY, profileId),
+      JSON.stringify([...loadQuarantine(profileId), ...items])
+    )
+  } catch {
+    // 隔离区写不进去时放弃，不影响正常记录的加载
+  }
+}
+
+export function clearQuarantine(profileId: string = loadActiveProfileId()): void {
+  localStorage.removeItem(getProfileStorageKey(QUARANTINE_KEY, profileId))
+}
+
+// IndexedDB：单个键值表
+const DB_NAME = 'working-time-record'
+const STORE_NAME = 'kv'
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function idbGet(key: string): Promise<string | null> {
+  const db = await openDatabase()
+  return new Promise<string | null>((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+    request.onsuccess = () => resolve(typeof request.result === 'string' ? request.result : null)
+    request.onerror = () => reject(request.error)
+  }).finally(() => db.close())
+}
+
+async function idbSet(key: string, value: string): Promise<void> {
+  const db = await openDatabase()
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).put(value, key)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  }).finally(() => db.close())
+}
+
+async function idbDelete(key: string): Promise<void> {
+  const db = await openDatabase()
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).delete(key)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  }).finally(() => db.close())
+}
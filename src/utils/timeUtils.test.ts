@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeSegments,
+  calculateRawSegmentsWorkedMinutes,
+  calculateWorkedMinutes,
+  createRecord
+} from './timeUtils'
+import { DEFAULT_WORK_SETTINGS } from './settingsUtils'
+
+describe('跨零点时段', () => {
+  it('结束早于开始时推断为次日下班', () => {
+    expect(normalizeSegments([{ startTime: '19:00', endTime: '02:00' }])[0]).toMatchObject({
+      startsNextDay: false,
+      endsNextDay: true
+    })
+  })
+
+  it('开始早于上一段结束时推断为次日开始', () => {
+    const segments = normalizeSegments([
+      { startTime: '20:00', endTime: '23:30' },
+      { startTime: '00:30', endTime: '02:00' }
+    ])
+    expect(segments[1]).toMatchObject({ startsNextDay: true, endsNextDay: true })
+    expect(calculateRawSegmentsWorkedMinutes(segments)).toBe(210 + 90)
+  })
+
+  it('19:00 - 次日 02:00 按 7 小时计算', () => {
+    expect(calculateWorkedMinutes('19:00', '02:00')).toBe(7 * 60)
+  })
+
+  it('正好到零点结束', () => {
+    expect(calculateWorkedMinutes('18:00', '00:00', true)).toBe(6 * 60)
+  })
+
+  it('跨零点的整天班扣除午休', () => {
+    expect(calculateWorkedMinutes('09:00', '01:00', true)).toBe(16 * 60 - 60)
+  })
+
+  it('记录保留次日下班标记并计算加班', () => {
+    const record = createRecord({
+      date: '2025-03-03',
+      segments: [{ startTime: '09:00', endTime: '01:00', endsNextDay: true }]
+    }, 'manual', DEFAULT_WORK_SETTINGS)
+    expect(record.endsNextDay).toBe(true)
+    expect(record.workedMinutes).toBe(15 * 60)
+    expect(record.overtimeMinutes).toBe(7 * 60)
+  })
+})
@@ -4,8 +4,6 @@ import {
   eachDayOfInterval, 
   isWeekend, 
   format, 
-  getDay,
-  differenceInMinutes,
   parse,
   isSameMonth,
   isBefore,
@@ -13,70 +11,102 @@ import {
   startOfDay
 } from 'date-fns'
 import { zhCN } from 'date-fns/locale'
+import { WorkSettings, DEFAULT_WORK_SETTINGS, timeToMinutes } from './settingsUtils'
+import { getHolidayInfo } from './holidayUtils'
+import { roundMinutes, applyLateGrace, creditOvertimeMinutes } from './roundingUtils'
 
 export interface TimeRecord {
   id: string
   date: string // YYYY-MM-DD
   startTime: string // HH:mm
   endTime: string // HH:mm
+  endsNextDay?: boolean // 下班时间是否在次日（跨零点）
+  segments?: WorkSegment[] // 工作时段（按时间先后），旧数据只有 startTime/endTime
   type: 'workday' | 'holiday' // workday=工作日, holiday=休息日(周末或节假日)
-  workedMinutes: number
-  overtimeMinutes: number
-}
-
-// 中国法定节假日（2024-2026年）
-// 格式：'YYYY-MM-DD'
-const HOLIDAYS: Set<string> = new Set([
-  // 2024年
-  '2024-01-01', // 元旦
-  '2024-02-10', '2024-02-11', '2024-02-12', '2024-02-13', '2024-02-14', '2024-02-15', '2024-02-16', '2024-02-17', // 春节
-  '2024-04-04', '2024-04-05', '2024-04-06', // 清明节
-  '2024-05-01', '2024-05-02', '2024-05-03', '2024-05-04', '2024-05-05', // 劳动节
-  '2024-06-08', '2024-06-09', '2024-06-10', // 端午节
-  '2024-09-15', '2024-09-16', '2024-09-17', // 中秋节
-  '2024-10-01', '2024-10-02', '2024-10-03', '2024-10-04', '2024-10-05', '2024-10-06', '2024-10-07', // 国庆节
-  // 2025年
-  '2025-01-01', // 元旦
-  '2025-01-28', '2025-01-29', '2025-01-30', '2025-01-31', '2025-02-01', '2025-02-02', '2025-02-03', '2025-02-04', // 春节
-  '2025-04-04', '2025-04-05', '2025-04-06', // 清明节
-  '2025-05-01', '2025-05-02', '2025-05-03', '2025-05-04', '2025-05-05', // 劳动节
-  '2025-05-31', '2025-06-01', '2025-06-02', // 端午节
-  '2025-10-01', '2025-10-02', '2025-10-03', '2025-10-04', '2025-10-05', '2025-10-06', '2025-10-07', '2025-10-08', // 国庆+中秋
-  // 2026年
-  '2026-01-01', '2026-01-02', '2026-01-03', // 元旦
-  '2026-02-17', '2026-02-18', '2026-02-19', '2026-02-20', '2026-02-21', '2026-02-22', '2026-02-23', // 春节
-  '2026-04-05', '2026-04-06', '2026-04-07', // 清明节
-  '2026-05-01', '2026-05-02', '2026-05-03', // 劳动节
-  '2026-06-19', '2026-06-20', '2026-06-21', // 端午节
-  '2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04', '2026-10-05', '2026-10-06', '2026-10-07', '2026-10-08', // 国庆+中秋
-])
-
-// 调休上班日（周末需要上班的日子）
-const WORKDAYS_OVERRIDE: Set<string> = new Set([
-  // 2024年
-  '2024-02-04', '2024-02-18', // 春节调休
-  '2024-04-07', // 清明调休
-  '2024-04-28', '2024-05-11', // 劳动节调休
-  '2024-09-14', // 中秋调休
-  '2024-09-29', '2024-10-12', // 国庆调休
-  // 2025年
-  '2025-01-26', '2025-02-08', // 春节调休
-  '2025-04-27', // 劳动节调休
-  '2025-09-28', '2025-10-11', // 国庆调休
-  // 2026年
-  '2026-01-04', // 元旦调休
-  '2026-02-14', '2026-02-28', // 春节调休
-  '2026-10-10', // 国庆调休
-])
-
-// 判断某天是否为节假日
+  workedMinutes: number // 计入的工时（按取整、迟到宽限规则）
+  overtimeMinutes: number // 计入的加班（按起算门槛、加班块规则）
+  rawWorkedMinutes?: number // 按打卡时间实际计算的工时（旧数据没有）
+  rawOvertimeMinutes?: number // 实际加班
+  overtimeCategory?: OvertimeCategory // 加班类别（旧数据没有，见 getRecordOvertimeCategory）
+  source?: RecordSource // 记录来源
+  history?: RecordChange[] // 修改历史（按时间先后）
+  punchStatus?: PunchStatus[] // 钉钉显示的异常打卡状态（截图识别导入）
+}
+
+// 记录来源：manual=手动录入, ocr=截图识别导入, import=文件导入
+export type RecordSource = 'manual' | 'ocr' | 'import'
+
+// 钉钉打卡异常状态：late=迟到, early=早退, missed=缺卡, makeup=补卡
+export type PunchStatus = 'late' | 'early' | 'missed' | 'makeup'
+
+export const PUNCH_STATUS_LABELS: Record<PunchStatus, string> = {
+  late: '迟到',
+  early: '早退',
+  missed: '缺卡',
+  makeup: '补卡'
+}
+
+// 加班类别（按劳动法计薪）：weekday=工作日（含调休上班日）, restDay=休息日, statutoryHoliday=法定节假日
+export type OvertimeCategory = 'weekday' | 'restDay' | 'statutoryHoliday'
+
+export const OVERTIME_CATEGORY_LABELS: Record<OvertimeCategory, string> = {
+  weekday: '工作日',
+  restDay: '休息日',
+  statutoryHoliday: '法定节假日'
+}
+
+// 一段连续的工作时间（一次上班打卡到一次下班打卡）
+// 未指定 startsNextDay/endsNextDay 时按时段先后顺序自动推断
+export interface WorkSegment {
+  startTime: string // HH:mm
+  endTime: string // HH:mm
+  startsNextDay?: boolean
+  endsNextDay?: boolean
+}
+
+// 记录中可被编辑的字段
+export interface RecordFields {
+  date: string
+  segments: WorkSegment[]
+}
+
+// 单次修改的审计信息，previous 为修改前的值
+export interface RecordChange {
+  editedBy: string
+  editedAt: string // ISO 时间
+  previous: RecordFields
+  reason?: 'merge' // 合并冲突记录时产生；未设置时为手动修改
+}
+
+// 判断某天是否为节假日（数据来自节假日日历，见 holidayUtils）
 export function isHoliday(dateStr: string): boolean {
-  return HOLIDAYS.has(dateStr)
+  return getHolidayInfo(dateStr)?.kind === 'holiday'
 }
 
 // 判断某天是否为调休工作日
 export function isWorkdayOverride(dateStr: string): boolean {
-  return WORKDAYS_OVERRIDE.has(dateStr)
+  return getHolidayInfo(dateStr)?.kind === 'workday'
+}
+
+// 获取节假日或调休名称，如“国庆节”
+export function getHolidayName(dateStr: string): string | undefined {
+  return getHolidayInfo(dateStr)?.name || undefined
+}
+
+// 日期类型：workday=工作日, weekend=周末, holiday=法定节假日, makeupWorkday=调休上班日
+export type DayKind = 'workday' | 'weekend' | 'holiday' | 'makeupWorkday'
+
+export function getDayKind(dateStr: string): DayKind {
+  if (isHoliday(dateStr)) return 'holiday'
+  if (isWorkdayOverride(dateStr)) return 'makeupWorkday'
+  return isWeekend(parse(dateStr, 'yyyy-MM-dd', new Date())) ? 'weekend' : 'workday'
+}
+
+// 某天加班的类别：调休上班日按工作日计
+export function getOvertimeCategory(dateStr: string): OvertimeCategory {
+  const kind = getDayKind(dateStr)
+  if (kind === 'holiday') return 'statutoryHoliday'
+  return kind === 'weekend' ? 'restDay' : 'weekday'
 }
 
 // 判断日期是否为休息日（周末或节假日，但排除调休上班日）
@@ -105,13 +135,18 @@ export function getWorkdaysInMonth(date: Date): number {
   }).length
 }
 
-// 计算本月剩余周末数
+// 计算所选月份剩余周末数
 export function getRemainingWeekends(date: Date): number {
   const today = startOfDay(new Date())
   const end = endOfMonth(date)
   
+  // 已过去的月份没有剩余周末
+  if (isBefore(end, today)) {
+    return 0
+  }
+  
   if (!isSameMonth(today, date)) {
-    // 如果不是当月，返回整月周末数
+    // 如果是未来月份，返回整月周末数
     const start = startOfMonth(date)
     const days = eachDayOfInterval({ start, end })
     return days.filter(day => isWeekend(day)).length
@@ -122,36 +157,116 @@ export function getRemainingWeekends(date: Date): number {
 }
 
 // 计算需要的总加班时长（分钟）
-export function getRequiredOvertimeMinutes(workdays: number): number {
-  return workdays * 2 * 60 // 每个工作日需要加班2小时
+// leaveDays 为可抵扣的请假天数：按工作日计算时直接扣除，按月计算时按出勤比例折算
+export function getRequiredOvertimeMinutes(
+  workdays: number,
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS,
+  leaveDays: number = 0
+): number {
+  const attendanceDays = Math.max(0, workdays - leaveDays)
+  if (settings.overtimeTargetMode === 'monthly') {
+    const ratio = workdays > 0 ? attendanceDays / workdays : 1
+    return Math.round(settings.overtimeHoursPerMonth * 60 * ratio)
+  }
+  return Math.round(attendanceDays * settings.overtimeHoursPerWorkday * 60)
 }
 
-// 午休时长（分钟）
-const LUNCH_BREAK_MINUTES = 60
+// 判断下班时间是否跨零点（下班时间早于上班时间视为次日）
+export function isNextDayEnd(startTime: string, endTime: string): boolean {
+  return endTime < startTime
+}
 
-// 计算单条记录的工时（扣除午休时间）
-// 规则：9:00-18:00 实际9小时，扣除1小时午休 = 8小时工时
-export function calculateWorkedMinutes(startTime: string, endTime: string): number {
-  const start = parse(startTime, 'HH:mm', new Date())
-  const end = parse(endTime, 'HH:mm', new Date())
-  const totalMinutes = differenceInMinutes(end, start)
-  
-  // 如果工作时长超过4小时，扣除午休时间
-  if (totalMinutes > 4 * 60) {
-    return totalMinutes - LUNCH_BREAK_MINUTES
+// 计算工作时段与午休时段的重叠分钟数（跨零点时次日的午休也要扣除）
+function getLunchOverlapMinutes(startMinutes: number, endMinutes: number, settings: WorkSettings): number {
+  const lunchStart = timeToMinutes(settings.lunchStart)
+  const lunchEnd = timeToMinutes(settings.lunchEnd)
+  let overlap = 0
+  for (const offset of [0, 24 * 60]) {
+    overlap += Math.max(0, Math.min(endMinutes, lunchEnd + offset) - Math.max(startMinutes, lunchStart + offset))
   }
-  return totalMinutes
+  return overlap
+}
+
+// 按时段先后顺序补全跨零点标记：开始早于上一段结束、或结束早于开始，都视为次日
+export function normalizeSegments(segments: WorkSegment[]): WorkSegment[] {
+  let cursor = 0
+  return segments.map(segment => {
+    let start = timeToMinutes(segment.startTime) + (segment.startsNextDay ? 24 * 60 : 0)
+    if (segment.startsNextDay === undefined && start < cursor) start += 24 * 60
+    let end = timeToMinutes(segment.endTime) + (segment.endsNextDay ? 24 * 60 : 0)
+    if (segment.endsNextDay === undefined && end < start) end += 24 * 60
+    cursor = end
+    return {
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      startsNextDay: start >= 24 * 60,
+      endsNextDay: end >= 24 * 60
+    }
+  })
+}
+
+// 时段换算为当天零点起的分钟区间
+function segmentToMinutes(segment: WorkSegment): [number, number] {
+  const start = timeToMinutes(segment.startTime) + (segment.startsNextDay ? 24 * 60 : 0)
+  const end = timeToMinutes(segment.endTime) + (segment.endsNextDay ? 24 * 60 : 0)
+  return [start, end]
+}
+
+// 计算多个时段的实际工时（每段扣除与午休时段重叠的部分，不取整）
+export function calculateRawSegmentsWorkedMinutes(
+  segments: WorkSegment[],
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): number {
+  return normalizeSegments(segments).reduce((sum, segment) => {
+    const [startMinutes, endMinutes] = segmentToMinutes(segment)
+    const totalMinutes = Math.max(0, endMinutes - startMinutes)
+    if (Number.isNaN(totalMinutes)) return sum
+    return sum + totalMinutes - getLunchOverlapMinutes(startMinutes, endMinutes, settings)
+  }, 0)
 }
 
-// 计算加班时长（工作日：超过8小时的部分；休息日：全部算加班）
-export function calculateOvertimeMinutes(workedMinutes: number, type: 'workday' | 'holiday'): number {
+// 计算多个时段的总工时（合计后按设置的粒度和方式取整）
+export function calculateSegmentsWorkedMinutes(
+  segments: WorkSegment[],
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): number {
+  return roundMinutes(calculateRawSegmentsWorkedMinutes(segments, settings), settings.roundingMinutes, settings.roundingMode)
+}
+
+// 计算单条记录的工时（扣除与午休时段重叠的部分，并按设置取整）
+// 规则：默认午休 12:00-13:00，9:00-18:00 实际9小时，扣除1小时午休 = 8小时工时
+// 跨零点：19:00-次日02:00 按 7 小时计算；未指定 endsNextDay 时自动推断
+export function calculateWorkedMinutes(
+  startTime: string,
+  endTime: string,
+  endsNextDay: boolean = isNextDayEnd(startTime, endTime),
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): number {
+  return calculateSegmentsWorkedMinutes([{ startTime, endTime, startsNextDay: false, endsNextDay }], settings)
+}
+
+// 计算实际加班时长（工作日：超过标准日工时的部分；休息日：全部算加班）
+export function calculateRawOvertimeMinutes(
+  workedMinutes: number,
+  type: 'workday' | 'holiday',
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): number {
   if (type === 'holiday') {
     return workedMinutes // 休息日全算加班
   }
-  const standardMinutes = 8 * 60 // 标准8小时
+  const standardMinutes = settings.standardDailyHours * 60
   return Math.max(0, workedMinutes - standardMinutes)
 }
 
+// 计算计入的加班时长（在实际加班基础上按起算门槛和加班块计算）
+export function calculateOvertimeMinutes(
+  workedMinutes: number,
+  type: 'workday' | 'holiday',
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): number {
+  return creditOvertimeMinutes(calculateRawOvertimeMinutes(workedMinutes, type, settings), type, settings)
+}
+
 // 格式化分钟为小时和分钟
 export function formatMinutesToHours(minutes: number): string {
   const hours = Math.floor(minutes / 60)
@@ -161,6 +276,30 @@ export function formatMinutesToHours(minutes: number): string {
   return `${hours}小时${mins}分钟`
 }
 
+// 记录的加班类别，旧数据按日期推断
+export function getRecordOvertimeCategory(record: Pick<TimeRecord, 'date' | 'overtimeCategory'>): OvertimeCategory {
+  return record.overtimeCategory ?? getOvertimeCategory(record.date)
+}
+
+// 按类别倍数折算的加班分钟（如法定节假日加班 1 小时按 3 倍折算为 3 小时）
+export function getWeightedOvertimeMinutes(
+  record: Pick<TimeRecord, 'date' | 'overtimeCategory' | 'overtimeMinutes'>,
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): number {
+  return Math.round(record.overtimeMinutes * settings.overtimeMultipliers[getRecordOvertimeCategory(record)])
+}
+
+// 按时薪估算折算后加班的加班费（元），未设置时薪时为 null
+export function estimateOvertimePay(weightedMinutes: number, settings: WorkSettings = DEFAULT_WORK_SETTINGS): number | null {
+  return settings.hourlyWage > 0 ? Math.round((weightedMinutes / 60) * settings.hourlyWage * 100) / 100 : null
+}
+
+// 计入的时长与实际不同时附上实际值，如“1小时（实际 1小时12分钟）”
+export function formatCreditedMinutes(credited: number, raw?: number): string {
+  const text = formatMinutesToHours(credited)
+  return raw === undefined || raw === credited ? text : `${text}（实际 ${formatMinutesToHours(raw)}）`
+}
+
 // 格式化日期显示
 export function formatDate(dateStr: string): string {
   const date = parse(dateStr, 'yyyy-MM-dd', new Date())
@@ -182,14 +321,111 @@ export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2)
 }
 
-// 本地存储
-export function saveRecords(records: TimeRecord[]): void {
-  localStorage.setItem('timeRecords', JSON.stringify(records))
+// 获取记录的工作时段（兼容只有 startTime/endTime 的旧数据）
+export function getRecordSegments(
+  record: Pick<TimeRecord, 'startTime' | 'endTime' | 'endsNextDay' | 'segments'>
+): WorkSegment[] {
+  if (record.segments && record.segments.length > 0) {
+    return record.segments
+  }
+  return [{ startTime: record.startTime, endTime: record.endTime, startsNextDay: false, endsNextDay: record.endsNextDay }]
+}
+
+// 格式化时段，如“19:00 - 次日 02:00”
+export function formatSegment(segment: WorkSegment): string {
+  return `${segment.startsNextDay ? '次日 ' : ''}${segment.startTime} - ${segment.endsNextDay ? '次日 ' : ''}${segment.endTime}`
+}
+
+export function formatSegments(segments: WorkSegment[]): string {
+  return segments.map(formatSegment).join('，')
+}
+
+// 根据日期和工作时段生成记录（自动计算类型、工时、加班）
+export function createRecord(
+  fields: RecordFields,
+  source: RecordSource = 'manual',
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): TimeRecord {
+  const { date } = fields
+  const segments = normalizeSegments(fields.segments)
+  const first = segments[0]
+  const last = segments[segments.length - 1]
+  const type = isDateWeekend(date) ? 'holiday' : 'workday'
+  // 计入的工时：工作日先按迟到宽限调整上班时间，再取整
+  const creditedSegments = type === 'workday' ? applyLateGrace(segments, settings) : segments
+  const workedMinutes = calculateSegmentsWorkedMinutes(creditedSegments, settings)
+  const overtimeMinutes = calculateOvertimeMinutes(workedMinutes, type, settings)
+  const rawWorkedMinutes = calculateRawSegmentsWorkedMinutes(segments, settings)
+
+  return {
+    id: generateId(),
+    date,
+    startTime: first?.startTime ?? '',
+    endTime: last?.endTime ?? '',
+    endsNextDay: Boolean(last?.endsNextDay),
+    segments,
+    type,
+    workedMinutes,
+    overtimeMinutes,
+    rawWorkedMinutes,
+    rawOvertimeMinutes: calculateRawOvertimeMinutes(rawWorkedMinutes, type, settings),
+    overtimeCategory: getOvertimeCategory(date),
+    source,
+    history: []
+  }
+}
+
+// 修改记录：重新计算派生字段，并把修改前的值追加到历史中
+export function editRecord(
+  record: TimeRecord,
+  fields: RecordFields,
+  editedBy: string,
+  settings: WorkSettings = DEFAULT_WORK_SETTINGS
+): TimeRecord {
+  const recalculated = createRecord(fields, record.source, settings)
+  const change: RecordChange = {
+    editedBy,
+    editedAt: new Date().toISOString(),
+    previous: {
+      date: record.date,
+      segments: getRecordSegments(record)
+    }
+  }
+
+  return {
+    ...recalculated,
+    id: record.id,
+    history: [...(record.history ?? []), change],
+    punchStatus: record.punchStatus
+  }
+}
+
+// 按新的工时规则重新计算记录（不产生修改历史）
+export function recalculateRecord(record: TimeRecord, settings: WorkSettings): TimeRecord {
+  const recalculated = createRecord({ date: record.date, segments: getRecordSegments(record) }, record.source, settings)
+  return {
+    ...record,
+    type: recalculated.type,
+    workedMinutes: recalculated.workedMinutes,
+    overtimeMinutes: recalculated.overtimeMinutes,
+    rawWorkedMinutes: recalculated.rawWorkedMinutes,
+    rawOvertimeMinutes: recalculated.rawOvertimeMinutes,
+    overtimeCategory: recalculated.overtimeCategory
+  }
+}
+
+// 记录是否被手动修改过
+export function isRecordEdited(record: TimeRecord): boolean {
+  return (record.history?.length ?? 0) > 0
+}
+
+// 修改人名称（用于审计记录）
+export function saveEditorName(name: string): void {
+  localStorage.setItem('editorName', name)
 }
 
-export function loadRecords(): TimeRecord[] {
-  const data = localStorage.getItem('timeRecords')
-  return data ? JSON.parse(data) : []
+export function loadEditorName(): string {
+  return localStorage.getItem('editorName') ?? ''
 }
 
 // 过滤当月记录
@@ -1,9 +1,46 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import fs from 'fs'
 import path from 'path'
 
+// OCR 所需的 worker、识别核心和语言模型，从 node_modules 以应用自身资源的形式提供
+const OCR_ASSETS: Record<string, string> = {
+  'tesseract/worker.min.js': 'node_modules/tesseract.js/dist/worker.min.js',
+  'tesseract/core/tesseract-core-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'tesseract/core/tesseract-core-simd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'tesseract/lang/chi_sim.traineddata.gz': 'node_modules/@tesseract.js-data/chi_sim/4.0.0_best_int/chi_sim.traineddata.gz',
+  'tesseract/lang/eng.traineddata.gz': 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+}
+
+function ocrAssets(): Plugin {
+  let base = '/'
+  return {
+    name: 'ocr-assets',
+    configResolved(config) {
+      base = config.base
+    },
+    // 开发服务器直接读取 node_modules 中的文件
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split('?')[0] ?? ''
+        const source = url.startsWith(base) ? OCR_ASSETS[url.slice(base.length)] : undefined
+        if (!source) return next()
+        res.setHeader('Content-Type', url.endsWith('.js') ? 'text/javascript' : 'application/octet-stream')
+        fs.createReadStream(path.resolve(__dirname, source)).pipe(res)
+      })
+    },
+    // 构建时原样输出到 dist/tesseract
+    generateBundle() {
+      Object.entries(OCR_ASSETS).forEach(([fileName, source]) => {
+        this.emitFile({ type: 'asset', fileName, source: fs.readFileSync(path.resolve(__dirname, source)) })
+      })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), ocrAssets()],
   server: {
     port: 3899,
     strictPort: true,
@@ -13,4 +50,8 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  // 工具函数会读写 localStorage，测试在 jsdom 中运行
+  test: {
+    environment: 'jsdom',
+  },
 })